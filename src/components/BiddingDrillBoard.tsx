@@ -0,0 +1,100 @@
+import React, { useState } from "react";
+import { type Suit } from "@/types/game";
+import Card from "@/components/Card";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { BidDecision } from "@/engine/bidding";
+import { gradeDrillAnswer, SEAT_POSITIONS, type BiddingDrill, type DrillResult } from "@/engine/biddingDrill";
+import { mustDealerCall } from "@/engine/rules";
+import { SUITS, SUIT_SYMBOLS } from "@/utils/gameUtils";
+import { cn } from "@/lib/utils";
+import { CheckCircle2, XCircle } from "lucide-react";
+
+interface BiddingDrillBoardProps {
+  drill: BiddingDrill;
+  onAnswer: (correct: boolean) => void;
+}
+
+
+const BiddingDrillBoard: React.FC<BiddingDrillBoardProps> = ({ drill, onAnswer }) => {
+  const [goingAlone, setGoingAlone] = useState(false);
+  const [result, setResult] = useState<DrillResult | null>(null);
+  const { players, turnUp, turnedDown, scores } = drill.state;
+  const mustCall = mustDealerCall(drill.state, 0);
+
+  const answer = (bid: BidDecision) => {
+    if (result) return;
+    const graded = gradeDrillAnswer(drill, bid);
+    setResult(graded);
+    onAnswer(graded.mark.agreed);
+  };
+
+  return (
+    <div className="bg-table rounded-lg p-4 space-y-4">
+      <div className="bg-white/90 rounded-md p-3 text-sm space-y-1">
+        <p className="font-medium">
+          {SEAT_POSITIONS[drill.position]} - {drill.round === 1 ? "first round" : "second round"}
+        </p>
+        <p>Score: Us {scores[0]} | Them {scores[1]}</p>
+        {drill.round === 2 && <p className="text-gray-600">
+            Everyone passed the {turnUp.rank}{SUIT_SYMBOLS[turnUp.suit]}, so {turnedDown} can't be trump.
+            {mustCall && " As dealer you must name trump."}
+          </p>}
+      </div>
+
+      <div className="flex justify-center min-h-28">
+        <div className="text-center">
+          <p className="text-white text-xs mb-1">{drill.round === 1 ? `Turned up by ${players[drill.state.dealer].name}` : "Turned down"}</p>
+          <Card card={turnUp} isPlayable={false} className={cn("scale-75", drill.round === 2 && "opacity-60")} />
+        </div>
+      </div>
+
+      <div>
+        <p className="text-white text-xs mb-1 text-center">Your Hand</p>
+        <div className="flex gap-1 md:gap-2 justify-center">
+          {players[0].hand.map(card => <Card key={card.id} card={card} isPlayable={false} />)}
+        </div>
+      </div>
+
+      {!result && <div className="space-y-3">
+          <div className="flex items-center justify-center gap-2 text-white text-sm">
+            <Switch checked={goingAlone} onCheckedChange={setGoingAlone} />
+            Go alone
+          </div>
+          <div className="flex flex-wrap justify-center gap-2">
+            {drill.round === 1 ? <Button onClick={() => answer({
+          action: "order-up",
+          goingAlone
+        })}>Order It Up</Button> : SUITS.filter(suit => suit !== turnedDown).map((suit: Suit) => <Button key={suit} onClick={() => answer({
+          action: "call",
+          suit,
+          goingAlone
+        })}>
+                  Call {SUIT_SYMBOLS[suit]} {suit}
+                </Button>)}
+            <Button variant="outline" disabled={mustCall} onClick={() => answer({
+          action: "pass"
+        })}>Pass</Button>
+          </div>
+        </div>}
+
+      {result && <div className={cn("rounded-md p-3 text-sm flex gap-2 border", result.mark.agreed ? "bg-green-50 border-green-200" : "bg-red-50 border-red-200")}>
+          {result.mark.agreed ? <CheckCircle2 className="w-5 h-5 text-green-600 shrink-0" /> : <XCircle className="w-5 h-5 text-red-600 shrink-0" />}
+          <div className="space-y-2">
+            <p className="font-medium">
+              {result.mark.agreed ? `${result.mark.chosen} - that's the bid.` : `You chose ${result.mark.chosen}; the bidder says ${result.mark.suggested}.`}
+              {result.mark.cost > 0 && ` About ${result.mark.cost} tricks given up.`}
+            </p>
+            {result.advice.reasons.map((reason, i) => <div key={i}>
+                <p>{reason.summary}</p>
+                <ul className="list-disc pl-5 text-gray-600">
+                  {reason.facts.map((fact, j) => <li key={j}>{fact}</li>)}
+                </ul>
+              </div>)}
+          </div>
+        </div>}
+    </div>
+  );
+};
+
+export default BiddingDrillBoard;
@@ -22,13 +22,16 @@ const Card: React.FC<CardProps> = ({
   const { suit, rank } = card;
   const isMobile = useIsMobile();
 
-  const suitColor = suit === "hearts" || suit === "diamonds" ? "text-red-600" : "text-black";
-  const suitSymbol = {
+  // The joker has no suit: a star in the corners and its name across the middle
+  const isJoker = !suit;
+  const suitColor = isJoker ? "text-purple-700" : suit === "hearts" || suit === "diamonds" ? "text-red-600" : "text-black";
+  const suitSymbol = isJoker ? "★" : {
     hearts: "♥",
     diamonds: "♦",
     spades: "♠",
     clubs: "♣",
   }[suit];
+  const cornerLabel = isJoker ? "★" : rank;
 
   return (
     <div
@@ -45,10 +48,10 @@ const Card: React.FC<CardProps> = ({
       )}
     >
       <div className={cn("absolute top-1 left-1 font-bold", suitColor, isMobile ? "text-sm" : "text-lg")}>
-        {rank}
+        {cornerLabel}
       </div>
       <div className={cn("absolute bottom-1 right-1 font-bold", suitColor, isMobile ? "text-sm" : "text-lg")}>
-        {rank}
+        {cornerLabel}
       </div>
       <div
         className={cn(
@@ -58,7 +61,10 @@ const Card: React.FC<CardProps> = ({
           isMobile ? "text-2xl" : "text-4xl"
         )}
       >
-        {suitSymbol}
+        {isJoker ? <div className={cn("flex flex-col items-center leading-none", isMobile ? "text-[10px]" : "text-sm")}>
+            <span className={isMobile ? "text-2xl" : "text-4xl"}>{suitSymbol}</span>
+            JOKER
+          </div> : suitSymbol}
       </div>
     </div>
   );
@@ -0,0 +1,18 @@
+import React from "react";
+import { type Card as CardType } from "@/types/game";
+import { cn } from "@/lib/utils";
+import { describeCard } from "@/utils/gameUtils";
+
+
+// Small inline card chip for lists and tables
+const CardLabel: React.FC<{ card: CardType; className?: string }> = ({ card, className }) => (
+  <span className={cn(
+    "inline-flex items-center px-1.5 py-0.5 rounded border bg-white font-bold text-xs",
+    !card.suit ? "text-purple-700" : card.suit === "hearts" || card.suit === "diamonds" ? "text-red-600" : "text-black",
+    className
+  )}>
+    {describeCard(card)}
+  </span>
+);
+
+export default CardLabel;
@@ -0,0 +1,57 @@
+import React from "react";
+import { type GameState } from "@/types/game";
+import { getFollowSuitOrder, getTrumpOrder, isTrumpCard } from "@/utils/cardRanking";
+import { getKnownVoids } from "@/engine/monteCarlo";
+import { getPlayableCards } from "@/engine/tableau";
+import { SUITS, SUIT_SYMBOLS } from "@/utils/gameUtils";
+import { cn } from "@/lib/utils";
+
+interface CardTrackerProps {
+  state: GameState;
+  seat: number;
+}
+
+
+// Every card of each effective suit, highest first, marked played, held or still out
+const CardTracker: React.FC<CardTrackerProps> = ({ state, seat }) => {
+  const { trump, players } = state;
+  if (!trump) return null;
+
+  const plays = [...state.playedTricks.flat(), ...state.trickCards];
+  const hand = getPlayableCards(players[seat]);
+  const voids = getKnownVoids(state);
+  const suits = [trump, ...SUITS.filter(suit => suit !== trump)];
+  const trumpPlayed = plays.filter(play => isTrumpCard(play.card, trump)).length;
+  const trumpCount = getTrumpOrder(trump, state.rules).length;
+
+  return (
+    <div className="fixed top-24 md:top-32 left-4 w-56 md:w-64 bg-white/95 rounded-lg shadow-lg p-2 md:p-3 text-xs space-y-2 z-20">
+      <p className="font-bold text-sm">Card Tracker</p>
+      {suits.map(suit => <div key={suit}>
+          <p className={cn("font-medium", suit === "hearts" || suit === "diamonds" ? "text-red-600" : "text-black")}>
+            {SUIT_SYMBOLS[suit]} {suit === trump ? `Trump (${trumpPlayed} of ${trumpCount} played)` : suit}
+          </p>
+          <div className="flex flex-wrap gap-1">
+            {getFollowSuitOrder(suit, trump, state.rules).map(({
+          suit: cardSuit,
+          rank
+        }) => {
+          const play = plays.find(p => p.card.suit === cardSuit && p.card.rank === rank);
+          const held = hand.some(c => c.suit === cardSuit && c.rank === rank);
+          return <span key={`${rank}-${cardSuit}`} title={play ? `Played by ${players[play.seat].name}` : held ? "In your hand" : "Not seen yet"} className={cn("px-1 rounded border font-bold", !cardSuit ? "text-purple-700" : cardSuit === "hearts" || cardSuit === "diamonds" ? "text-red-600" : "text-black", play && "opacity-40 line-through", held && "bg-yellow-100 border-yellow-400")}>
+                  {rank}{SUIT_SYMBOLS[cardSuit]}
+                </span>;
+        })}
+          </div>
+        </div>)}
+      {voids.some((voidSuits, other) => other !== seat && voidSuits.length > 0) && <div className="pt-1 border-t">
+          {voids.map((voidSuits, other) => other !== seat && voidSuits.map(suit => <p key={`${other}-${suit}`}>
+                {players[other].name} is out of {suit}
+              </p>))}
+        </div>}
+      <p className="text-gray-500">Struck out: played. Highlighted: in your hand.</p>
+    </div>
+  );
+};
+
+export default CardTracker;
@@ -0,0 +1,81 @@
+import React, { useMemo, useState } from "react";
+import { type GameState } from "@/types/game";
+import { getAdvice } from "@/engine/coach";
+import { explainPartnerPlay } from "@/engine/conventions";
+import { getGrade } from "@/engine/report";
+import { cn } from "@/lib/utils";
+import { ChevronDown, ChevronUp, GraduationCap } from "lucide-react";
+
+const lowerFirst = (text: string) => text.charAt(0).toLowerCase() + text.slice(1);
+
+interface CoachPanelProps {
+  state: GameState;
+  seat: number;
+}
+
+const CoachPanel: React.FC<CoachPanelProps> = ({ state, seat }) => {
+  const [collapsed, setCollapsed] = useState(false);
+  const [showOptions, setShowOptions] = useState(false);
+  const advice = useMemo(() => getAdvice(state, seat), [state, seat]);
+  // Most recent graded decision, carried over from the last hand until a new one is made
+  const lastMark = [...state.handHistory.flatMap(hand => hand.marks), ...state.coachMarks]
+    .filter(mark => mark.seat === seat)
+    .pop();
+  const grade = lastMark && getGrade(lastMark);
+  const partnerNote = explainPartnerPlay(state, seat);
+
+  return (
+    <div className="fixed top-24 md:top-32 right-4 w-64 md:w-80 max-h-[50vh] overflow-y-auto bg-white/95 rounded-lg shadow-lg text-xs md:text-sm z-20">
+      <button onClick={() => setCollapsed(!collapsed)} className="w-full flex items-center justify-between p-2 md:p-3 font-bold">
+        <span className="flex items-center gap-2">
+          <GraduationCap className="w-4 h-4" />
+          Coach
+        </span>
+        {collapsed ? <ChevronDown className="w-4 h-4" /> : <ChevronUp className="w-4 h-4" />}
+      </button>
+
+      {!collapsed && <div className="px-2 pb-2 md:px-3 md:pb-3 space-y-3">
+          {lastMark && <div className={cn("p-2 rounded border", grade === "mistake" ? "bg-amber-50 border-amber-200" : "bg-gray-50")}>
+              <p className="text-[10px] uppercase tracking-wide text-gray-500">Your last decision</p>
+              <p>
+                {lastMark.chosen}:{" "}
+                {grade === "best" ? "the coach agrees." : grade === "fine" ? `just as good as ${lowerFirst(lastMark.suggested)}.` : `cost ${lastMark.cost.toFixed(1)} trick${lastMark.cost === 1 ? "" : "s"} - the coach would ${lowerFirst(lastMark.suggested)}.`}
+              </p>
+            </div>}
+
+          {partnerNote && <div className="p-2 rounded border bg-blue-50 border-blue-200">
+              <p className="text-[10px] uppercase tracking-wide text-blue-700">Your partner's last play</p>
+              <p>{partnerNote}</p>
+            </div>}
+
+          {!advice ? <p className="text-gray-500 italic">Advice appears here when it's your turn.</p> : <>
+              <div className="p-2 bg-green-50 border border-green-200 rounded">
+                <p className="text-[10px] uppercase tracking-wide text-green-700">Recommended</p>
+                <p className="font-bold">{advice.recommended.label}</p>
+              </div>
+
+              {advice.reasons.map((reason, i) => <div key={i}>
+                  <p className="font-medium">{reason.summary}</p>
+                  {reason.facts.length > 0 && <ul className="list-disc pl-4 text-gray-600">
+                      {reason.facts.map(fact => <li key={fact}>{fact}</li>)}
+                    </ul>}
+                </div>)}
+
+              {advice.alternatives.length > 0 && <div>
+                  <button onClick={() => setShowOptions(!showOptions)} className="text-blue-700 underline">
+                    {showOptions ? "Hide" : "Show"} other options ({advice.alternatives.length})
+                  </button>
+                  {showOptions && <ul className="mt-1 space-y-1">
+                      {advice.alternatives.map(option => <li key={option.label}>
+                          <span className="font-medium">{option.label}</span>
+                          <span className="text-gray-600"> - {option.note}</span>
+                        </li>)}
+                    </ul>}
+                </div>}
+            </>}
+        </div>}
+    </div>
+  );
+};
+
+export default CoachPanel;
@@ -1,16 +1,36 @@
-import React, { useEffect, useState } from "react";
+import React, { useEffect, useRef, useState } from "react";
 import { useGame } from "@/context/GameContext";
-import { type Card as CardType, type Suit } from "@/types/game";
+import { type Card as CardType, type Suit, type BotLevel, type DeckSize, type GameMode } from "@/types/game";
 import Card from "@/components/Card";
-import { isValidPlay, getTip, getGameRules, getBestPlay } from "@/utils/gameUtils";
+import HandAnalysis from "@/components/HandAnalysis";
+import HandReview from "@/components/HandReview";
+import Tableau from "@/components/Tableau";
+import ReportCard from "@/components/ReportCard";
+import CoachPanel from "@/components/CoachPanel";
+import CardTracker from "@/components/CardTracker";
+import StrengthGauge, { AloneEstimate } from "@/components/StrengthGauge";
+import { isValidPlay, getGameRules, SUITS, SUIT_SYMBOLS } from "@/utils/gameUtils";
 import { toast } from "sonner";
+import { Link } from "react-router-dom";
 import { Button } from "@/components/ui/button";
-import { Info, Play, HelpCircle, Book, RotateCcw } from "lucide-react";
+import { Info, Play, Book, RotateCcw, Trophy, Copy, Microscope, History, ListChecks, GraduationCap, Puzzle, Gavel } from "lucide-react";
 import { Switch } from "@/components/ui/switch";
 import { useIsMobile } from "@/hooks/use-mobile";
+import { createRng, randomSeed } from "@/engine/rng";
+import { estimateTrumpOptions, type TrumpEstimate } from "@/engine/monteCarlo";
+import { applyAction } from "@/reducers/gameReducer";
+import { encodeDealCode, parseDealCode } from "@/engine/dealCode";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { BOT_STRATEGIES, getBotStrategy } from "@/engine/bots";
+import { CONVENTIONS } from "@/engine/conventions";
+import { canGoAlone, canSwapFarmersHand, DECK_SIZE_OPTIONS, DEFAULT_RULES, GAME_MODE_OPTIONS, getFarmersSwapCards, isJokerTurnUp, mustDealerCall, POINTS_TO_WIN_OPTIONS, RULE_TOGGLES } from "@/engine/rules";
+import { getTeamName, isSeated } from "@/engine/seating";
+import { getPlayableCards } from "@/engine/tableau";
 import { Checkbox } from "@/components/ui/checkbox";
 import type { CheckedState } from "@radix-ui/react-checkbox";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+const SEAT_ROLES = ["You", "Left opponent", "Partner", "Right opponent"];
 const EuchreGame: React.FC = () => {
   const {
     state,
@@ -22,15 +42,48 @@ const EuchreGame: React.FC = () => {
     dealer = 0,
     trickCards = [],
     trump,
+    turnUp,
+    turnedDown,
     phase = "pre-game",
     learningMode = false,
+    conventions = [],
+    rules = DEFAULT_RULES,
     scores = [0, 0],
+    tricksWon = [0, 0],
+    winner,
+    handSeed = 0,
+    handHistory = [],
     trumpSelector = 0,
-    shouldClearTrick = false
+    shouldClearTrick = false,
+    bids = []
   } = state || {};
+  const trick = trickCards.map(play => play.card);
   const isMobile = useIsMobile();
   const [showRules, setShowRules] = useState(false);
+  const [showAnalysis, setShowAnalysis] = useState(false);
+  const [showReview, setShowReview] = useState(false);
+  const [showTracker, setShowTracker] = useState(false);
   const [goingAlone, setGoingAlone] = useState(false);
+  const [dealCodeInput, setDealCodeInput] = useState("");
+  const dealCode = encodeDealCode(handSeed, dealer, rules);
+  const lastHand = handHistory[handHistory.length - 1];
+  // Learning mode simulates each trump you could name while it's your bid
+  const showMeter = learningMode && (phase === "bidding" || phase === "calling") && currentPlayer === 0;
+  // Simulated once per bidding turn, after the board has rendered, rather than on every state change
+  const [trumpEstimates, setTrumpEstimates] = useState<TrumpEstimate[]>([]);
+  const latestState = useRef(state);
+  latestState.current = state;
+  const bidTurn = showMeter ? `${handSeed}:${phase}:${bids.length}:${players[0]?.hand.map(c => c.id).join()}` : null;
+  useEffect(() => {
+    setTrumpEstimates(bidTurn ? estimateTrumpOptions(latestState.current, 0, createRng(handSeed), applyAction) : []);
+  }, [bidTurn, handSeed]);
+  const estimateFor = (suit: Suit) => {
+    const estimate = trumpEstimates.find(e => e.suit === suit);
+    return estimate && (goingAlone && aloneAllowed ? estimate.alone : estimate.partnered);
+  };
+  const aloneAllowed = phase === "bidding" || phase === "calling" ? canGoAlone(state, 0) : true;
+  const scoreLine = (counts: number[]) => counts.map((count, team) => `${getTeamName(rules, players, team)}: ${count}`).join(" | ");
+  const bestAlone = trumpEstimates.length > 0 ? trumpEstimates.reduce((best, e) => (e.alone.points > best.alone.points ? e : best)) : null;
   useEffect(() => {
     if (phase === "dealing") {
       dispatch({
@@ -39,7 +92,7 @@ const EuchreGame: React.FC = () => {
     }
   }, [phase]);
   useEffect(() => {
-    if (players[currentPlayer]?.isCPU && phase !== "pre-game") {
+    if (players[currentPlayer]?.isCPU && phase !== "pre-game" && phase !== "game-over") {
       const timer = setTimeout(() => {
         dispatch({
           type: "CPU_PLAY"
@@ -50,24 +103,23 @@ const EuchreGame: React.FC = () => {
   }, [currentPlayer, players, phase]);
   useEffect(() => {
     if (learningMode && phase === "dealing") {
-      toast.info(getGameRules());
+      toast.info(getGameRules(rules));
     }
-  }, [learningMode, phase]);
+  }, [learningMode, phase, rules]);
   const handleCardClick = (card: CardType) => {
-    if (!trump || phase !== "playing") return;
     const player = players[currentPlayer];
     if (!player || player.isCPU) return;
-    if (!isValidPlay(card, player.hand, trickCards, trump)) {
-      toast.error("Invalid play - you must follow suit if possible!");
+    if (phase === "discarding") {
+      dispatch({
+        type: "DISCARD",
+        card
+      });
       return;
     }
-    if (learningMode) {
-      const bestPlay = getBestPlay(player.hand, trickCards, trump);
-      if (card.id === bestPlay.id) {
-        toast.success("Great play! That was the optimal choice.");
-      } else {
-        toast.info(`Tip: Consider playing ${bestPlay.rank} of ${bestPlay.suit} instead.`);
-      }
+    if (!trump || phase !== "playing") return;
+    if (!isValidPlay(card, getPlayableCards(player), trick, trump)) {
+      toast.error("Invalid play - you must follow suit if possible!");
+      return;
     }
     dispatch({
       type: "PLAY_CARD",
@@ -79,12 +131,33 @@ const EuchreGame: React.FC = () => {
       type: "PASS"
     });
   };
-  const handleHelpRequest = () => {
-    if (!learningMode || phase !== "playing") return;
-    const player = players[currentPlayer];
-    if (!player || player.isCPU) return;
-    const bestPlay = getBestPlay(player.hand, trickCards, trump);
-    toast.info(`Suggestion: Play the ${bestPlay.rank} of ${bestPlay.suit}`);
+  const handleOrderUp = () => {
+    dispatch({
+      type: "ORDER_UP",
+      goingAlone: goingAlone && aloneAllowed
+    });
+  };
+  const handleStartGame = () => {
+    if (dealCodeInput.trim()) {
+      const deal = parseDealCode(dealCodeInput);
+      if (!deal) {
+        toast.error("That deal code isn't valid - check it and try again.");
+        return;
+      }
+      dispatch({
+        type: "START_GAME",
+        seed: randomSeed(),
+        deal
+      });
+      return;
+    }
+    dispatch({
+      type: "START_GAME",
+      seed: randomSeed()
+    });
+  };
+  const handleCopyDealCode = () => {
+    navigator.clipboard.writeText(dealCode).then(() => toast.success(`Deal code ${dealCode} copied`), () => toast.error("Couldn't copy the deal code"));
   };
   const handleNewGame = () => {
     localStorage.removeItem("euchre_game_state");
@@ -113,10 +186,146 @@ const EuchreGame: React.FC = () => {
                 <Button variant="outline" className="w-full" onClick={() => setShowRules(true)}>
                   View Game Rules
                 </Button>
+                <Button variant="outline" className="w-full" asChild>
+                  <Link to="/tutorial">
+                    <GraduationCap className="w-4 h-4 mr-2" />
+                    Take the Tutorial
+                  </Link>
+                </Button>
+                <Button variant="outline" className="w-full" asChild>
+                  <Link to="/puzzles">
+                    <Puzzle className="w-4 h-4 mr-2" />
+                    Solve Puzzles
+                  </Link>
+                </Button>
+                <Button variant="outline" className="w-full" asChild>
+                  <Link to="/bidding-drill">
+                    <Gavel className="w-4 h-4 mr-2" />
+                    Practice Bidding
+                  </Link>
+                </Button>
               </div>}
-            <Button className="w-full" size="lg" onClick={() => dispatch({
-            type: "START_GAME"
-          })}>
+            <div className="space-y-3 p-4 bg-gray-50 rounded-lg">
+              <p className="font-medium text-sm md:text-base">CPU Players</p>
+              {players.map((player, seat) => player.isCPU && isSeated(rules, seat) && <div key={player.id} className="flex items-center justify-between gap-2">
+                    <div>
+                      <label className="text-sm">
+                        {player.name} <span className="text-gray-500">({rules.mode === "two-handed" ? "Opponent" : SEAT_ROLES[seat]})</span>
+                      </label>
+                      <p className="text-xs text-gray-500">{getBotStrategy(player.botLevel).description}</p>
+                    </div>
+                    <Select value={getBotStrategy(player.botLevel).level} onValueChange={(level: BotLevel) => dispatch({
+                type: "SET_BOT_LEVEL",
+                seat,
+                level
+              })}>
+                      <SelectTrigger className="w-36">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.values(BOT_STRATEGIES).map(strategy => <SelectItem key={strategy.level} value={strategy.level}>
+                            {strategy.name}
+                          </SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                  </div>)}
+            </div>
+            {rules.mode !== "two-handed" && <div className="space-y-3 p-4 bg-gray-50 rounded-lg">
+              <p className="font-medium text-sm md:text-base">Partner Conventions</p>
+              {CONVENTIONS.map(convention => <div key={convention.id} className="flex items-center justify-between gap-2">
+                  <div>
+                    <label className="text-sm">{convention.name}</label>
+                    <p className="text-xs text-gray-500">{convention.description}</p>
+                  </div>
+                  <Switch checked={conventions.includes(convention.id)} onCheckedChange={() => dispatch({
+                type: "TOGGLE_CONVENTION",
+                convention: convention.id
+              })} />
+                </div>)}
+            </div>}
+            <div className="space-y-3 p-4 bg-gray-50 rounded-lg">
+              <p className="font-medium text-sm md:text-base">House Rules</p>
+              <div className="flex items-center justify-between gap-2">
+                <div>
+                  <label className="text-sm">Game</label>
+                  <p className="text-xs text-gray-500">{GAME_MODE_OPTIONS.find(option => option.mode === rules.mode)?.description}</p>
+                </div>
+                <Select value={rules.mode} onValueChange={(mode: GameMode) => dispatch({
+                type: "SET_RULES",
+                rules: {
+                  mode
+                }
+              })}>
+                  <SelectTrigger className="w-44">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {GAME_MODE_OPTIONS.map(option => <SelectItem key={option.mode} value={option.mode}>
+                        {option.name}
+                      </SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+              {RULE_TOGGLES.map(toggle => <div key={toggle.key} className="flex items-center justify-between gap-2">
+                  <div>
+                    <label className="text-sm">{toggle.name}</label>
+                    <p className="text-xs text-gray-500">{toggle.description}</p>
+                  </div>
+                  <Switch checked={rules[toggle.key]} onCheckedChange={checked => dispatch({
+                type: "SET_RULES",
+                rules: {
+                  [toggle.key]: checked
+                }
+              })} />
+                </div>)}
+              <div className="flex items-center justify-between gap-2">
+                <label className="text-sm">Points to win</label>
+                <Select value={String(rules.pointsToWin)} onValueChange={value => dispatch({
+                type: "SET_RULES",
+                rules: {
+                  pointsToWin: Number(value)
+                }
+              })}>
+                  <SelectTrigger className="w-24">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {POINTS_TO_WIN_OPTIONS.map(points => <SelectItem key={points} value={String(points)}>
+                        {points}
+                      </SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-center justify-between gap-2">
+                <div>
+                  <label className="text-sm">Deck</label>
+                  <p className="text-xs text-gray-500">Adding 8s, or 7s and 8s, makes a bigger kitty.</p>
+                </div>
+                <Select value={String(rules.deckSize)} onValueChange={value => dispatch({
+                type: "SET_RULES",
+                rules: {
+                  deckSize: Number(value) as DeckSize
+                }
+              })}>
+                  <SelectTrigger className="w-44">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DECK_SIZE_OPTIONS.map(option => <SelectItem key={option.size} value={String(option.size)}>
+                        {option.name}
+                      </SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2 p-4 bg-gray-50 rounded-lg">
+              <label htmlFor="dealCode" className="font-medium text-sm md:text-base">Deal Code (optional)</label>
+              <Input id="dealCode" placeholder="e.g. 20Z-141-Z3K" value={dealCodeInput} onChange={e => setDealCodeInput(e.target.value)} />
+              <p className="text-xs text-gray-600">
+                Enter a code from a teammate to play the exact same first hand.
+              </p>
+            </div>
+            <Button className="w-full" size="lg" onClick={handleStartGame}>
               <Play className="w-5 h-5 mr-2" />
               Let's Play!
             </Button>
@@ -129,12 +338,44 @@ const EuchreGame: React.FC = () => {
               <DialogTitle>Euchre Rules</DialogTitle>
             </DialogHeader>
             <div className="space-y-4 text-sm">
-              {getGameRules().split('\n').filter(Boolean).map((line, i) => <p key={i}>{line}</p>)}
+              {getGameRules(rules).split('\n').filter(Boolean).map((line, i) => <p key={i}>{line}</p>)}
             </div>
           </DialogContent>
         </Dialog>
       </div>;
   }
+  if (phase === "game-over") {
+    return <div className="min-h-screen bg-table flex items-center justify-center p-4">
+        <div className="bg-white/90 p-6 md:p-8 rounded-lg shadow-lg max-w-lg w-full max-h-[95vh] overflow-y-auto space-y-6 text-center">
+          <Trophy className="w-12 h-12 mx-auto text-yellow-500" />
+          <h1 className="text-xl md:text-2xl font-bold">
+            {rules.mode === "partners" ? winner === 0 ? "Your team wins!" : "The opponents win!" : winner === 0 ? "You win!" : `${getTeamName(rules, players, winner)} wins!`}
+          </h1>
+          <p className="text-lg">Final score: {scoreLine(scores)}</p>
+          <ReportCard state={state} seat={0} />
+          <Button variant="outline" className="w-full" onClick={() => setShowReview(true)}>
+            <History className="w-5 h-5 mr-2" />
+            Review Hands
+          </Button>
+          <Button className="w-full" size="lg" onClick={() => dispatch({
+          type: "START_GAME",
+          seed: randomSeed()
+        })}>
+            <Play className="w-5 h-5 mr-2" />
+            Play Again
+          </Button>
+        </div>
+
+        <Dialog open={showReview} onOpenChange={setShowReview}>
+          <DialogContent className="max-h-[80vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>Hand Review</DialogTitle>
+            </DialogHeader>
+            {showReview && <HandReview history={handHistory} players={players} seat={0} rules={rules} />}
+          </DialogContent>
+        </Dialog>
+      </div>;
+  }
   return <div className="min-h-screen bg-table p-2 md:p-4 relative">
       {/* Learning controls - bottom left */}
       <div className="fixed bottom-4 left-4 flex flex-col gap-2">
@@ -148,14 +389,22 @@ const EuchreGame: React.FC = () => {
           <Info className="w-3 h-3 md:w-4 md:h-4" />
           {learningMode ? "Disable" : "Enable"} Learning
         </Button>
+        {handHistory.length > 0 && <Button variant="secondary" onClick={() => setShowReview(true)} className="flex items-center gap-2 text-xs md:text-sm bg-white/90 shadow-lg" size={isMobile ? "sm" : "default"}>
+            <History className="w-3 h-3 md:w-4 md:h-4" />
+            Review Hands
+          </Button>}
         {learningMode && <>
             <Button variant="secondary" onClick={() => setShowRules(true)} className="flex items-center gap-2 text-xs md:text-sm bg-white/90 shadow-lg" size={isMobile ? "sm" : "default"}>
               <Book className="w-3 h-3 md:w-4 md:h-4" />
               Game Rules
             </Button>
-            {phase === "playing" && <Button variant="secondary" onClick={handleHelpRequest} className="flex items-center gap-2 text-xs md:text-sm bg-white/90 shadow-lg" size={isMobile ? "sm" : "default"}>
-                <HelpCircle className="w-3 h-3 md:w-4 md:h-4" />
-                Help Me
+            <Button variant="secondary" onClick={() => setShowTracker(!showTracker)} className="flex items-center gap-2 text-xs md:text-sm bg-white/90 shadow-lg" size={isMobile ? "sm" : "default"}>
+              <ListChecks className="w-3 h-3 md:w-4 md:h-4" />
+              {showTracker ? "Hide" : "Show"} Card Tracker
+            </Button>
+            {lastHand && rules.mode !== "two-handed" && <Button variant="secondary" onClick={() => setShowAnalysis(true)} className="flex items-center gap-2 text-xs md:text-sm bg-white/90 shadow-lg" size={isMobile ? "sm" : "default"}>
+                <Microscope className="w-3 h-3 md:w-4 md:h-4" />
+                Analyze Last Hand
               </Button>}
           </>}
       </div>
@@ -164,18 +413,26 @@ const EuchreGame: React.FC = () => {
       <div className="fixed bottom-4 right-4 space-y-2">
         {trump && <div className="bg-white/90 p-2 rounded-lg shadow-lg text-xs md:text-sm text-center">
             <p className="font-bold">Trump</p>
-            <p className="text-lg">{trump === "hearts" ? "♥" : trump === "diamonds" ? "♦" : trump === "spades" ? "♠" : "♣"}</p>
+            <p className="text-lg">{SUIT_SYMBOLS[trump]}</p>
             <p className="text-xs text-gray-600 mt-1">Selected by {players[trumpSelector]?.name || "Unknown"}</p>
           </div>}
         <div className="bg-white/90 p-2 rounded-lg shadow-lg text-xs md:text-sm">
-          <p className="font-bold">Score</p>
-          <p>Us: {scores[0]} | Them: {scores[1]}</p>
+          <p className="font-bold">Score (to {rules.pointsToWin})</p>
+          <p>{scoreLine(scores)}</p>
+          <p className="font-bold mt-1">Tricks This Hand</p>
+          <p>{scoreLine(tricksWon)}</p>
         </div>
+        <button onClick={handleCopyDealCode} className="bg-white/90 p-2 rounded-lg shadow-lg text-xs md:text-sm flex items-center gap-2 w-full" title="Copy this hand's deal code">
+          <span>
+            <span className="font-bold">Deal</span> {dealCode}
+          </span>
+          <Copy className="w-3 h-3 md:w-4 md:h-4" />
+        </button>
       </div>
 
       {/* Player hands and game area */}
       <div className="flex justify-between mb-4 md:mb-8">
-        {(players.slice(1) || []).map((player, i) => <div key={player.id} className="text-center">
+        {(players.slice(1) || []).map((player, i) => isSeated(rules, i + 1) && <div key={player.id} className="text-center">
             <div className="flex items-center gap-1 md:gap-2 justify-center mb-1 md:mb-2">
               <p className="text-white text-xs md:text-base">{player.name}</p>
               {i + 1 === dealer && <span className="bg-yellow-500 text-[10px] md:text-xs px-1 md:px-2 py-0.5 md:py-1 rounded">
@@ -185,27 +442,36 @@ const EuchreGame: React.FC = () => {
             <div className="flex gap-1 md:gap-2">
               {player.hand.map((card, cardIndex) => <div key={`${player.id}-card-${cardIndex}`} className="w-8 h-12 md:w-16 md:h-24 bg-card-back rounded-lg shadow-md" />)}
             </div>
+            {player.tableau && <Tableau piles={player.tableau} className="mt-2" />}
           </div>)}
       </div>
 
       {/* Center trick area */}
       <div className="fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 z-10">
         <div className="flex flex-col items-center gap-4">
+          {(phase === "bidding" || isJokerTurnUp(state)) && turnUp && <div className="text-center">
+              <p className="text-white text-xs md:text-sm mb-1">
+                Turned up by {players[dealer]?.name || "Unknown"}
+              </p>
+              <Card card={turnUp} isPlayable={false} className={isMobile ? "scale-75" : "scale-90"} />
+            </div>}
+          {phase === "calling" && turnedDown && <div className="bg-white/90 px-3 py-1 rounded-md shadow-lg text-xs md:text-sm">
+              Turned down: {SUIT_SYMBOLS[turnedDown]}
+            </div>}
           <div className="flex gap-4 md:gap-8">
-            {trickCards.map((card, i) => {
-            const leadingPlayer = (currentPlayer - trickCards.length + 4) % 4;
-            const playerIndex = (leadingPlayer + i) % 4;
-            return <div key={`trick-card-${i}`} className="text-center">
+            {trickCards.map(({
+            seat,
+            card
+          }) => <div key={`trick-card-${card.id}`} className="text-center">
                   <p className="text-white text-xs md:text-sm mb-1">
-                    {players[playerIndex]?.name || "Unknown"}
+                    {players[seat]?.name || "Unknown"}
                   </p>
                   <Card card={card} isPlayable={false} className={`transform transition-all duration-300 ${isMobile ? "scale-75" : "scale-90"} animate-card-deal`} />
-                </div>;
-          })}
+                </div>)}
           </div>
           
           {/* Next Trick Button */}
-          {trickCards.length === 4 && currentPlayer === 0 && <Button onClick={handleNextTrick} size={isMobile ? "sm" : "default"} className="mt-4 bg-white/90 hover:bg-white shadow-lg text-slate-950">
+          {shouldClearTrick && <Button onClick={handleNextTrick} size={isMobile ? "sm" : "default"} className="mt-4 bg-white/90 hover:bg-white shadow-lg text-slate-950">
               Next Trick
             </Button>}
         </div>
@@ -217,50 +483,131 @@ const EuchreGame: React.FC = () => {
           {currentPlayer === 0 && phase === "playing" && <div className="bg-white/90 px-4 py-1 rounded-md shadow-lg text-base font-bold animate-bounce">
               It's Your Turn!
             </div>}
+          {currentPlayer === 0 && phase === "discarding" && <div className="bg-white/90 px-4 py-1 rounded-md shadow-lg text-base font-bold animate-bounce">
+              Choose a card to discard
+            </div>}
           <p className="text-white text-xs md:text-base">Your Hand</p>
           {dealer === 0 && <span className="bg-yellow-500 text-[10px] md:text-xs px-1 md:px-2 py-0.5 md:py-1 rounded">
               Dealer
             </span>}
         </div>
+        {players[0]?.tableau && <Tableau piles={players[0].tableau} isPlayable={() => currentPlayer === 0 && phase === "playing"} onCardClick={handleCardClick} className="mb-2" />}
         <div className="flex gap-1 md:gap-2 justify-center">
-          {players[0]?.hand?.map((card, index) => <Card key={`player-card-${index}`} card={card} isPlayable={currentPlayer === 0 && phase === "playing"} onClick={() => handleCardClick(card)} />)}
+          {players[0]?.hand?.map((card, index) => <Card key={`player-card-${index}`} card={card} isPlayable={currentPlayer === 0 && (phase === "playing" || phase === "discarding")} onClick={() => handleCardClick(card)} />)}
         </div>
       </div>
 
       {/* Bidding UI */}
-      {phase === "bidding" && currentPlayer === 0 && <div className="fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 bg-white/90 p-3 md:p-4 rounded-lg shadow-lg animate-fade-in z-30">
+      {(phase === "bidding" || phase === "calling") && currentPlayer === 0 && <div className="fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 bg-white/90 p-3 md:p-4 rounded-lg shadow-lg animate-fade-in z-30">
           <div className="text-base md:text-lg font-bold mb-2 md:mb-4">
-            <p>Select Trump Suit</p>
+            {phase === "bidding" && turnUp ? <div className="flex items-center gap-3">
+                <Card card={turnUp} isPlayable={false} className="scale-75" />
+                <p>{dealer === 0 ? "Pick up" : "Order up"} the {turnUp.rank} of {turnUp.suit}?</p>
+              </div> : isJokerTurnUp(state) && turnUp ? <div className="flex items-center gap-3">
+                <Card card={turnUp} isPlayable={false} className="scale-75" />
+                <p>The joker is yours - name trump and pick it up</p>
+              </div> : <p>Select Trump Suit</p>}
           </div>
           
-          <div className="flex items-center space-x-2 mb-4">
-            <Checkbox id="goAlone" checked={goingAlone} onCheckedChange={(checked: CheckedState) => {
-          if (typeof checked === "boolean") {
-            setGoingAlone(checked);
-          }
-        }} />
-            <label htmlFor="goAlone" className="text-sm text-gray-600 leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70">
-              Go Alone (Your partner sits out, but you'll score more points if you win!)
-            </label>
+          <div className="mb-4 space-y-1">
+            <div className="flex items-center space-x-2">
+              <Checkbox id="goAlone" checked={goingAlone && aloneAllowed} disabled={!aloneAllowed} onCheckedChange={(checked: CheckedState) => {
+            if (typeof checked === "boolean") {
+              setGoingAlone(checked);
+            }
+          }} />
+              <label htmlFor="goAlone" className="text-sm text-gray-600 leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70">
+                Go Alone (Your partner sits out, but you'll score more points if you win!)
+              </label>
+            </div>
+            {bestAlone && aloneAllowed && <AloneEstimate estimate={bestAlone.alone} label={phase === "bidding" ? "Alone" : `Alone in ${SUIT_SYMBOLS[bestAlone.suit]}`} rules={rules} />}
           </div>
 
-          <div className="grid grid-cols-2 gap-2">
-            {["hearts", "diamonds", "spades", "clubs"].map(suit => <Button key={suit} onClick={() => dispatch({
-          type: "SET_TRUMP",
-          suit: suit as Suit,
-          goingAlone
-        })} className="h-14 md:h-20 flex items-center justify-center text-xl md:text-2xl" size={isMobile ? "sm" : "default"}>
-                {suit === "hearts" && "♥"}
-                {suit === "diamonds" && "♦"}
-                {suit === "spades" && "♠"}
-                {suit === "clubs" && "♣"}
-              </Button>)}
-            {currentPlayer !== dealer && <Button variant="outline" onClick={handlePass} className="col-span-2 mt-2" size={isMobile ? "sm" : "default"}>
+          {canSwapFarmersHand(state, 0) && <div className="mb-4 space-y-1">
+              <Button variant="secondary" className="w-full" onClick={() => dispatch({
+            type: "FARMERS_SWAP",
+            cards: getFarmersSwapCards(players[0].hand)
+          })} size={isMobile ? "sm" : "default"}>
+                Swap Farmer's Hand
+              </Button>
+              <p className="text-xs text-gray-600">No face cards: trade your three lowest for the kitty.</p>
+            </div>}
+
+          {phase === "bidding" ? <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Button onClick={handleOrderUp} className="w-full" size={isMobile ? "sm" : "default"}>
+                  {dealer === 0 ? "Pick It Up" : "Order It Up"}
+                </Button>
+                {turnUp && estimateFor(turnUp.suit) && <StrengthGauge estimate={estimateFor(turnUp.suit)} rules={rules} />}
+              </div>
+              <Button variant="outline" onClick={handlePass} size={isMobile ? "sm" : "default"}>
                 Pass
-              </Button>}
+              </Button>
+            </div> : <div className="grid grid-cols-2 gap-2">
+              {SUITS.map(suit => <div key={suit} className="space-y-1">
+                  <Button disabled={suit === turnedDown} onClick={() => dispatch({
+              type: "SET_TRUMP",
+              suit,
+              goingAlone: goingAlone && aloneAllowed
+            })} className="w-full h-14 md:h-20 flex items-center justify-center text-xl md:text-2xl" size={isMobile ? "sm" : "default"}>
+                    {SUIT_SYMBOLS[suit]}
+                  </Button>
+                  {estimateFor(suit) && <StrengthGauge estimate={estimateFor(suit)} rules={rules} />}
+                </div>)}
+              {!mustDealerCall(state, 0) && <Button variant="outline" onClick={handlePass} className="col-span-2 mt-2" size={isMobile ? "sm" : "default"}>
+                  Pass
+                </Button>}
+            </div>}
+        </div>}
+
+      {/* Defend alone UI */}
+      {phase === "defending" && currentPlayer === 0 && <div className="fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 bg-white/90 p-3 md:p-4 rounded-lg shadow-lg animate-fade-in z-30">
+          <p className="text-base md:text-lg font-bold mb-2 md:mb-4">
+            {players[trumpSelector]?.name || "Unknown"} is going alone in {trump && SUIT_SYMBOLS[trump]}. Defend alone?
+          </p>
+          <p className="text-xs text-gray-600 mb-4">Your partner sits out. Euchre them by yourself and your team scores 4.</p>
+          <div className="grid grid-cols-2 gap-2">
+            <Button onClick={() => dispatch({
+            type: "DEFEND_ALONE",
+            alone: true
+          })} size={isMobile ? "sm" : "default"}>
+              Defend Alone
+            </Button>
+            <Button variant="outline" onClick={() => dispatch({
+            type: "DEFEND_ALONE",
+            alone: false
+          })} size={isMobile ? "sm" : "default"}>
+              Play With Partner
+            </Button>
           </div>
         </div>}
 
+      {/* Coaching side panel */}
+      {learningMode && <CoachPanel state={state} seat={0} />}
+
+      {/* Played-card memory aid */}
+      {learningMode && showTracker && <CardTracker state={state} seat={0} />}
+
+      {/* Hand Review Dialog */}
+      <Dialog open={showReview} onOpenChange={setShowReview}>
+        <DialogContent className="max-h-[80vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Hand Review</DialogTitle>
+          </DialogHeader>
+          {showReview && <HandReview history={handHistory} players={players} seat={0} rules={rules} />}
+        </DialogContent>
+      </Dialog>
+
+      {/* Hand Analysis Dialog */}
+      <Dialog open={showAnalysis} onOpenChange={setShowAnalysis}>
+        <DialogContent className="max-h-[80vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Last Hand Analysis</DialogTitle>
+          </DialogHeader>
+          {showAnalysis && lastHand && <HandAnalysis record={lastHand} players={players} seat={0} rules={rules} />}
+        </DialogContent>
+      </Dialog>
+
       {/* Rules Dialog */}
       <Dialog open={showRules} onOpenChange={setShowRules}>
         <DialogContent className="max-h-[80vh] overflow-y-auto">
@@ -268,7 +615,7 @@ const EuchreGame: React.FC = () => {
             <DialogTitle>Euchre Rules</DialogTitle>
           </DialogHeader>
           <div className="space-y-4 text-sm">
-            {getGameRules().split('\n').filter(Boolean).map((line, i) => <p key={i}>{line}</p>)}
+            {getGameRules(rules).split('\n').filter(Boolean).map((line, i) => <p key={i}>{line}</p>)}
           </div>
         </DialogContent>
       </Dialog>
@@ -0,0 +1,77 @@
+import React, { useMemo } from "react";
+import { type HandRecord, type Player, type RuleSet } from "@/types/game";
+import { analyzeHand } from "@/engine/solver";
+import { getSatOutSeats } from "@/engine/rules";
+import { getSides } from "@/engine/seating";
+import CardLabel from "@/components/CardLabel";
+import { SUIT_SYMBOLS } from "@/utils/gameUtils";
+import { cn } from "@/lib/utils";
+
+interface HandAnalysisProps {
+  record: HandRecord;
+  players: Player[];
+  seat: number;
+  rules: RuleSet;
+}
+
+
+const HandAnalysis: React.FC<HandAnalysisProps> = ({ record, players, seat, rules }) => {
+  const analysis = useMemo(() => analyzeHand(record, seat, rules), [record, seat, rules]);
+  const side = getSides(rules, record.trumpSelector)[seat];
+  const satOut = getSatOutSeats(record, rules);
+  const totalLost = analysis.plays.reduce((total, play) => total + play.tricksLost, 0);
+
+  return (
+    <div className="space-y-4 text-sm">
+      <div className="space-y-2">
+        <p className="font-bold">All Cards Face Up</p>
+        {record.hands.map((hand, i) => (
+          <div key={players[i].id} className="flex items-center gap-2">
+            <span className="w-16 shrink-0">{players[i].name}</span>
+            <div className="flex flex-wrap gap-1">
+              {hand.map(card => <CardLabel key={card.id} card={card} />)}
+            </div>
+            {i === record.trumpSelector && <span className="text-xs text-gray-500">called {SUIT_SYMBOLS[record.trump]}</span>}
+            {satOut.includes(i) && <span className="text-xs text-gray-500">sat out</span>}
+          </div>
+        ))}
+      </div>
+
+      <div className="p-3 bg-gray-50 rounded-lg">
+        <p>
+          With perfect play from the first lead: Us {analysis.bestLine[side]} tricks, Them {analysis.bestLine[1 - side]}.
+        </p>
+        <p className={cn("font-medium", totalLost > 0 ? "text-red-600" : "text-green-700")}>
+          {analysis.plays.length === 0 ? "You sat out this hand." : totalLost === 0 ? "Every card you played kept the best result in reach." : `Your plays cost ${totalLost} trick${totalLost === 1 ? "" : "s"} in total.`}
+        </p>
+      </div>
+
+      {analysis.plays.length > 0 && <table className="w-full">
+          <thead>
+            <tr className="text-left text-gray-500">
+              <th className="font-medium">Trick</th>
+              <th className="font-medium">You played</th>
+              <th className="font-medium">Best</th>
+              <th className="font-medium">Cost</th>
+            </tr>
+          </thead>
+          <tbody>
+            {analysis.plays.map(play => <tr key={play.card.id} className="border-t">
+                <td className="py-1">{play.trickIndex + 1}</td>
+                <td className="py-1"><CardLabel card={play.card} /></td>
+                <td className="py-1">
+                  <div className="flex flex-wrap gap-1">
+                    {play.bestCards.map(card => <CardLabel key={card.id} card={card} />)}
+                  </div>
+                </td>
+                <td className={cn("py-1", play.tricksLost > 0 && "text-red-600 font-bold")}>
+                  {play.tricksLost === 0 ? "—" : `${play.tricksLost} trick${play.tricksLost === 1 ? "" : "s"}`}
+                </td>
+              </tr>)}
+          </tbody>
+        </table>}
+    </div>
+  );
+};
+
+export default HandAnalysis;
@@ -0,0 +1,144 @@
+import React, { useState } from "react";
+import { type BidRecord, type CoachMark, type HandRecord, type Player, type RuleSet } from "@/types/game";
+import CardLabel from "@/components/CardLabel";
+import { Button } from "@/components/ui/button";
+import { encodeDealCode } from "@/engine/dealCode";
+import { getSatOutSeats } from "@/engine/rules";
+import { getSides, getTeamName } from "@/engine/seating";
+import { SUIT_SYMBOLS } from "@/utils/gameUtils";
+import { cn } from "@/lib/utils";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+
+interface HandReviewProps {
+  history: HandRecord[];
+  players: Player[];
+  seat: number;
+  rules: RuleSet;
+}
+
+
+const describeBid = (bid: BidRecord) => {
+  if (bid.action === "pass") return "Pass";
+  const alone = bid.goingAlone ? " alone" : "";
+  if (bid.action === "order-up") return `Order up ${SUIT_SYMBOLS[bid.suit]}${alone}`;
+  return `Call ${SUIT_SYMBOLS[bid.suit]}${alone}`;
+};
+
+const MarkNote: React.FC<{ mark: CoachMark }> = ({ mark }) => (
+  <div className={cn("p-2 rounded border text-xs", mark.agreed ? "bg-green-50 border-green-200" : "bg-amber-50 border-amber-200")}>
+    {mark.agreed ? <p className="font-medium text-green-700">{mark.chosen} - the coach agrees.</p> : <>
+        <p className="font-medium text-amber-800">You: {mark.chosen} | Coach: {mark.suggested}</p>
+        <p className="text-gray-600">{mark.reason}</p>
+      </>}
+  </div>
+);
+
+// Step 0 is the deal and the auction, step k is the k-th trick
+const HandReview: React.FC<HandReviewProps> = ({ history, players, seat, rules }) => {
+  const [handIndex, setHandIndex] = useState(history.length - 1);
+  const [step, setStep] = useState(0);
+  const record = history[handIndex];
+  if (!record) return null;
+
+  const sides = getSides(rules, record.trumpSelector);
+  const satOut = getSatOutSeats(record, rules);
+  const trick = step > 0 ? record.tricks[step - 1] : [];
+  const playedBefore = new Set(record.tricks.slice(0, Math.max(step - 1, 0)).flat().map(play => play.card.id));
+  // Hands as they stood when this step began
+  const hands = step === 0 ? record.dealt : record.hands.map(hand => hand.filter(c => !playedBefore.has(c.id)));
+  const bidMarks = record.marks.filter(mark => mark.kind !== "lead" && mark.kind !== "follow");
+  const trickMarks = record.marks.filter(mark => mark.trickIndex === step - 1);
+  const isLastStep = step === record.tricks.length;
+  const tricksTaken = record.trickWinners.filter(winner => sides[winner] === sides[seat]).length;
+
+  const selectHand = (index: number) => {
+    setHandIndex(index);
+    setStep(0);
+  };
+
+  return (
+    <div className="space-y-4 text-sm">
+      <div className="flex items-center justify-between gap-2">
+        <Button variant="outline" size="sm" disabled={handIndex === 0} onClick={() => selectHand(handIndex - 1)}>
+          <ChevronLeft className="w-4 h-4" />
+        </Button>
+        <div className="text-center">
+          <p className="font-bold">Hand {handIndex + 1} of {history.length}</p>
+          <p className="text-xs text-gray-500">
+            Deal {encodeDealCode(record.handSeed, record.dealer, rules)} | {players[record.dealer]?.name} dealt
+          </p>
+        </div>
+        <Button variant="outline" size="sm" disabled={handIndex === history.length - 1} onClick={() => selectHand(handIndex + 1)}>
+          <ChevronRight className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <div className="space-y-2">
+        <p className="font-bold">{step === 0 ? "As Dealt" : `Before Trick ${step}`}</p>
+        {hands.map((hand, i) => <div key={players[i].id} className="flex items-center gap-2">
+            <span className="w-16 shrink-0">{players[i].name}</span>
+            <div className="flex flex-wrap gap-1">
+              {hand.map(card => <CardLabel key={card.id} card={card} />)}
+            </div>
+            {step > 0 && satOut.includes(i) && <span className="text-xs text-gray-500">sat out</span>}
+          </div>)}
+      </div>
+
+      {step === 0 ? <div className="space-y-2">
+          {record.turnUp && <div className="flex items-center gap-2">
+              <span className="font-bold">Turn-up</span>
+              <CardLabel card={record.turnUp} />
+            </div>}
+          <div>
+            <p className="font-bold">Bidding</p>
+            <ol className="list-decimal pl-5">
+              {record.bids.map((bid, i) => <li key={i}>
+                  {players[bid.seat]?.name}: {describeBid(bid)}
+                  {i > 0 && bid.round !== record.bids[i - 1].round && <span className="text-xs text-gray-500"> (second round)</span>}
+                </li>)}
+            </ol>
+          </div>
+          {record.discard && <div className="flex items-center gap-2">
+              <span>{players[record.dealer]?.name} discarded</span>
+              <CardLabel card={record.discard} />
+            </div>}
+          {bidMarks.map((mark, i) => <MarkNote key={i} mark={mark} />)}
+        </div> : <div className="space-y-2">
+          <p className="font-bold">
+            Trick {step} | Trump {SUIT_SYMBOLS[record.trump]}
+          </p>
+          <div className="flex flex-wrap gap-3">
+            {trick.map(play => <div key={play.card.id} className={cn("p-2 rounded border text-center", play.seat === record.trickWinners[step - 1] && "bg-green-50 border-green-300")}>
+                <p className="text-xs mb-1">{players[play.seat]?.name}</p>
+                <CardLabel card={play.card} />
+              </div>)}
+          </div>
+          <p>{players[record.trickWinners[step - 1]]?.name} took the trick.</p>
+          {trickMarks.map((mark, i) => <MarkNote key={i} mark={mark} />)}
+        </div>}
+
+      {isLastStep && <div className="p-3 bg-gray-50 rounded-lg">
+          <p>
+            Your {rules.mode === "partners" ? "team" : "side"} took {tricksTaken} trick{tricksTaken === 1 ? "" : "s"}.{" "}
+            {record.result.teams.map(team => getTeamName(rules, players, team)).join(" and ")} +{record.result.points}
+            {record.result.euchred && " (euchre)"}
+          </p>
+          <p className="text-gray-600">
+            Score after the hand: {record.scores.map((score, team) => `${getTeamName(rules, players, team)} ${score}`).join(" | ")}
+          </p>
+        </div>}
+
+      <div className="flex items-center justify-between">
+        <Button variant="outline" size="sm" disabled={step === 0} onClick={() => setStep(step - 1)}>
+          Previous
+        </Button>
+        <span className="text-xs text-gray-500">{step === 0 ? "Bidding" : `Trick ${step} of ${record.tricks.length}`}</span>
+        <Button variant="outline" size="sm" disabled={isLastStep} onClick={() => setStep(step + 1)}>
+          Next
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default HandReview;
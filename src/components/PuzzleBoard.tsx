@@ -0,0 +1,88 @@
+import React, { useMemo, useState } from "react";
+import { type Card as CardType } from "@/types/game";
+import Card from "@/components/Card";
+import CardLabel from "@/components/CardLabel";
+import { buildPuzzlePosition, type Puzzle } from "@/engine/puzzles";
+import { isValidPlay, parseCardCode, SUIT_SYMBOLS } from "@/utils/gameUtils";
+import { cn } from "@/lib/utils";
+import { CheckCircle2, XCircle } from "lucide-react";
+
+interface PuzzleBoardProps {
+  puzzle: Puzzle;
+  onAnswer: (correct: boolean) => void;
+}
+
+
+const PuzzleBoard: React.FC<PuzzleBoardProps> = ({ puzzle, onAnswer }) => {
+  const state = useMemo(() => buildPuzzlePosition(puzzle), [puzzle]);
+  const [chosen, setChosen] = useState<CardType | null>(null);
+  const [illegal, setIllegal] = useState(false);
+  const { players, trickCards, playedTricks, trump, tricksWon, trumpSelector } = state;
+  const hand = players[0].hand;
+  const answer = parseCardCode(puzzle.answer);
+  const correct = chosen?.id === answer.id;
+
+  const handleCardClick = (card: CardType) => {
+    if (chosen) return;
+    if (!isValidPlay(card, hand, trickCards.map(play => play.card), trump)) {
+      setIllegal(true);
+      return;
+    }
+    setIllegal(false);
+    setChosen(card);
+    onAnswer(card.id === answer.id);
+  };
+
+  return (
+    <div className="bg-table rounded-lg p-4 space-y-4">
+      <div className="bg-white/90 rounded-md p-3 text-sm space-y-1">
+        <p>
+          Trump: <span className="font-bold">{SUIT_SYMBOLS[trump]} {trump}</span>, named by {players[trumpSelector].name}
+          {puzzle.goingAlone && " (alone)"}
+        </p>
+        <p>Tricks so far: Us {tricksWon[0]} | Them {tricksWon[1]}</p>
+        {playedTricks.map((trick, i) => <div key={i} className="flex items-center gap-1 flex-wrap">
+            <span className="text-xs text-gray-500 w-14">Trick {i + 1}</span>
+            {trick.map(play => <span key={play.card.id} className="flex items-center gap-0.5 text-xs">
+                {players[play.seat].name}
+                <CardLabel card={play.card} />
+              </span>)}
+          </div>)}
+        {Object.entries(puzzle.hands ?? {}).map(([seat, cards]) => <div key={seat} className="flex items-center gap-1 flex-wrap">
+            <span className="text-xs text-gray-500 w-14">{players[Number(seat)].name}</span>
+            {cards.map(code => <CardLabel key={code} card={parseCardCode(code)} />)}
+          </div>)}
+      </div>
+
+      <div className="flex justify-center gap-4 min-h-28">
+        {trickCards.length === 0 && <p className="text-white text-sm self-center">Your lead</p>}
+        {trickCards.map(({
+        seat,
+        card
+      }) => <div key={card.id} className="text-center">
+              <p className="text-white text-xs mb-1">{players[seat].name}</p>
+              <Card card={card} isPlayable={false} className="scale-75" />
+            </div>)}
+      </div>
+
+      <div className="flex gap-1 md:gap-2 justify-center">
+        {hand.map(card => <Card key={card.id} card={card} isPlayable={!chosen} isSelected={chosen?.id === card.id} onClick={() => handleCardClick(card)} />)}
+      </div>
+
+      {illegal && <div className="bg-amber-50 border border-amber-200 rounded-md p-3 text-sm">
+          That's not a legal play - you must follow suit if you can.
+        </div>}
+      {chosen && <div className={cn("rounded-md p-3 text-sm flex gap-2 border", correct ? "bg-green-50 border-green-200" : "bg-red-50 border-red-200")}>
+          {correct ? <CheckCircle2 className="w-5 h-5 text-green-600 shrink-0" /> : <XCircle className="w-5 h-5 text-red-600 shrink-0" />}
+          <div>
+            <p className="font-medium flex items-center gap-1">
+              {correct ? "Correct!" : <>Not this time - the best play is <CardLabel card={answer} /></>}
+            </p>
+            <p>{puzzle.explanation}</p>
+          </div>
+        </div>}
+    </div>
+  );
+};
+
+export default PuzzleBoard;
@@ -0,0 +1,99 @@
+import React, { useMemo } from "react";
+import { type GameState } from "@/types/game";
+import {
+  buildGameReport,
+  DECISION_KINDS,
+  DECISION_LABELS,
+  getAccuracy,
+  getCostliestMistakes,
+  getGameMarks,
+} from "@/engine/report";
+import { loadGameReports } from "@/utils/storage";
+import { cn } from "@/lib/utils";
+
+interface ReportCardProps {
+  state: GameState;
+  seat: number;
+}
+
+// Games shown in the trend
+const TREND_GAMES = 10;
+
+const formatPercent = (value: number | null) => (value === null ? "—" : `${Math.round(value * 100)}%`);
+
+const ReportCard: React.FC<ReportCardProps> = ({ state, seat }) => {
+  const report = useMemo(() => buildGameReport(state, seat), [state, seat]);
+  const marks = useMemo(() => getGameMarks(state, seat), [state, seat]);
+  const mistakes = getCostliestMistakes(marks, 3);
+  const past = useMemo(() => loadGameReports().filter(r => r.id !== report.id).slice(-TREND_GAMES), [report.id]);
+  const trend = [...past, report].slice(-TREND_GAMES);
+  const accuracy = getAccuracy(Object.values(report.categories));
+
+  // The weakest category with a few decisions behind it is the one to practice
+  const practice = DECISION_KINDS
+    .filter(kind => report.categories[kind].decisions >= 2)
+    .sort((a, b) => getAccuracy([report.categories[a]]) - getAccuracy([report.categories[b]]))[0];
+
+  if (marks.length === 0) {
+    return <p className="text-sm text-gray-600">Turn on learning mode to have your decisions graded.</p>;
+  }
+
+  return (
+    <div className="space-y-4 text-sm text-left">
+      <p className="font-bold">Learning Report: {formatPercent(accuracy)} of {marks.length} decisions on target</p>
+
+      <table className="w-full">
+        <thead>
+          <tr className="text-left text-gray-500">
+            <th className="font-medium">Decision</th>
+            <th className="font-medium">Count</th>
+            <th className="font-medium">This game</th>
+            <th className="font-medium">Recent</th>
+            <th className="font-medium">Tricks lost</th>
+          </tr>
+        </thead>
+        <tbody>
+          {DECISION_KINDS.map(kind => {
+          const stats = report.categories[kind];
+          const recent = getAccuracy(past.map(r => r.categories[kind]));
+          return <tr key={kind} className="border-t">
+                <td className="py-1">{DECISION_LABELS[kind]}</td>
+                <td className="py-1">{stats.decisions}</td>
+                <td className={cn("py-1", stats.mistakes > 0 && "text-red-600")}>{formatPercent(getAccuracy([stats]))}</td>
+                <td className="py-1 text-gray-500">{formatPercent(recent)}</td>
+                <td className="py-1">{stats.cost > 0 ? stats.cost.toFixed(1) : "—"}</td>
+              </tr>;
+        })}
+        </tbody>
+      </table>
+
+      {practice && report.categories[practice].mistakes > 0 && <p className="text-gray-700">
+          Practice next: <span className="font-bold">{DECISION_LABELS[practice]}</span>
+        </p>}
+
+      {mistakes.length > 0 && <div className="space-y-1">
+          <p className="font-bold">Costliest Mistakes</p>
+          {mistakes.map((mark, i) => <div key={i} className="p-2 bg-amber-50 border border-amber-200 rounded text-xs">
+              <p className="font-medium">
+                Hand {mark.handIndex + 1}{mark.trickIndex !== undefined && `, trick ${mark.trickIndex + 1}`}: {mark.chosen} (cost {mark.cost.toFixed(1)})
+              </p>
+              <p className="text-gray-600">Coach: {mark.suggested} - {mark.reason}</p>
+            </div>)}
+        </div>}
+
+      {trend.length > 1 && <div>
+          <p className="font-bold mb-1">Last {trend.length} Games</p>
+          <div className="flex items-end gap-1 h-16">
+            {trend.map(r => {
+            const value = getAccuracy(Object.values(r.categories)) ?? 0;
+            return <div key={r.id} title={formatPercent(value)} className={cn("flex-1 rounded-t", r.id === report.id ? "bg-blue-600" : "bg-blue-300")} style={{
+              height: `${Math.max(value * 100, 4)}%`
+            }} />;
+          })}
+          </div>
+        </div>}
+    </div>
+  );
+};
+
+export default ReportCard;
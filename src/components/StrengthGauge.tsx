@@ -0,0 +1,37 @@
+import React from "react";
+import { type RuleSet } from "@/types/game";
+import { type BidEstimate } from "@/engine/monteCarlo";
+import { getDealLayout, getTricksToMake } from "@/engine/rules";
+import { cn } from "@/lib/utils";
+
+const percent = (chance: number) => `${Math.round(chance * 100)}%`;
+
+// Expected tricks out of the hand's total, with a notch at the number the makers need
+const StrengthGauge: React.FC<{ estimate: BidEstimate; rules: RuleSet; className?: string }> = ({ estimate, rules, className }) => {
+  const { tricks, euchreChance } = estimate;
+  const total = getDealLayout(rules).tricks;
+  return (
+    <div className={cn("space-y-0.5", className)}>
+      <div className="relative h-1.5 rounded-full bg-gray-200 overflow-hidden">
+        <div className={cn("h-full rounded-full", euchreChance > 0.4 ? "bg-red-500" : euchreChance > 0.2 ? "bg-amber-500" : "bg-green-600")} style={{
+        width: `${tricks / total * 100}%`
+      }} />
+        <div className="absolute inset-y-0 w-px bg-gray-500" style={{
+        left: `${getTricksToMake(rules) / total * 100}%`
+      }} />
+      </div>
+      <p className="text-[11px] text-gray-600 leading-tight">
+        {tricks.toFixed(1)} tricks, {percent(euchreChance)} euchred
+      </p>
+    </div>
+  );
+};
+
+// The loner numbers shown beside the "Go Alone" checkbox
+export const AloneEstimate: React.FC<{ estimate: BidEstimate; label: string; rules: RuleSet }> = ({ estimate, label, rules }) => (
+  <p className="text-xs text-gray-600">
+    {label}: {estimate.tricks.toFixed(1)} tricks, {percent(estimate.marchChance)} take all {getDealLayout(rules).tricks}, {percent(estimate.euchreChance)} euchred
+  </p>
+);
+
+export default StrengthGauge;
@@ -0,0 +1,24 @@
+import React from "react";
+import { type Card as CardType, type TableauPile } from "@/types/game";
+import Card from "@/components/Card";
+import { cn } from "@/lib/utils";
+
+interface TableauProps {
+  piles: TableauPile[];
+  // Which face-up cards can be clicked right now
+  isPlayable?: (card: CardType) => boolean;
+  onCardClick?: (card: CardType) => void;
+  className?: string;
+}
+
+// A two-handed tableau: each pile's face-up card sits offset over the face-down card it covers
+const Tableau: React.FC<TableauProps> = ({ piles, isPlayable = () => false, onCardClick, className }) => (
+  <div className={cn("flex gap-2 md:gap-4 justify-center", className)}>
+    {piles.map((pile, i) => <div key={i} className="relative w-[4.5rem] h-[6.5rem] md:w-[6.5rem] md:h-[9.5rem]">
+        {pile.faceDown && <div className="absolute top-0 left-0 w-16 h-24 md:w-24 md:h-36 bg-card-back rounded-lg shadow-md" />}
+        {pile.faceUp && <Card card={pile.faceUp} isPlayable={isPlayable(pile.faceUp)} onClick={() => onCardClick?.(pile.faceUp)} className="absolute top-2 left-2" />}
+      </div>)}
+  </div>
+);
+
+export default Tableau;
@@ -0,0 +1,96 @@
+import React, { useMemo, useState } from "react";
+import { type Card as CardType } from "@/types/game";
+import Card from "@/components/Card";
+import { Button } from "@/components/ui/button";
+import { toCardCode, SUIT_SYMBOLS } from "@/utils/gameUtils";
+import {
+  buildPosition,
+  isExpectedMove,
+  playStep,
+  type LessonStep,
+  type TutorialMove,
+} from "@/engine/tutorial";
+import { CheckCircle2 } from "lucide-react";
+
+interface TutorialBoardProps {
+  step: LessonStep;
+  onSolved: () => void;
+}
+
+
+// One scripted position: only the move being taught is accepted
+const TutorialBoard: React.FC<TutorialBoardProps> = ({ step, onSolved }) => {
+  const [solved, setSolved] = useState(false);
+  const [hint, setHint] = useState<string | null>(null);
+  const state = useMemo(() => (solved ? playStep(step) : buildPosition(step.deal)), [step, solved]);
+  const { players, trickCards, trump, turnUp, dealer } = state;
+  const bidding = !step.deal.trump;
+
+  const tryMove = (move: TutorialMove) => {
+    if (solved) return;
+    if (!isExpectedMove(step, move)) {
+      setHint(step.hint);
+      return;
+    }
+    setHint(null);
+    setSolved(true);
+    onSolved();
+  };
+
+  return (
+    <div className="bg-table rounded-lg p-4 space-y-4">
+      <div className="bg-white/90 rounded-md p-3 text-sm">
+        <p className="font-medium">{step.prompt}</p>
+        {trump && <p className="text-gray-600 mt-1">Trump: {SUIT_SYMBOLS[trump]} {trump}</p>}
+      </div>
+
+      <div className="flex justify-center gap-4 min-h-28">
+        {bidding && turnUp && <div className="text-center">
+            <p className="text-white text-xs mb-1">Turned up by {players[dealer].name}</p>
+            <Card card={turnUp} isPlayable={false} className="scale-75" />
+          </div>}
+        {trickCards.map(({
+        seat,
+        card
+      }) => <div key={card.id} className="text-center">
+              <p className="text-white text-xs mb-1">{players[seat].name}</p>
+              <Card card={card} isPlayable={false} className="scale-75" />
+            </div>)}
+      </div>
+
+      <div>
+        <p className="text-white text-xs mb-1 text-center">Your Hand</p>
+        <div className="flex gap-1 md:gap-2 justify-center">
+          {players[0].hand.map((card: CardType) => <Card key={card.id} card={card} isPlayable={!bidding && !solved} onClick={() => tryMove({
+          type: "play",
+          card: toCardCode(card)
+        })} />)}
+        </div>
+      </div>
+
+      {bidding && !solved && <div className="flex justify-center gap-2">
+          <Button onClick={() => tryMove({
+        type: "order-up",
+        goingAlone: false
+      })}>Order It Up</Button>
+          <Button onClick={() => tryMove({
+        type: "order-up",
+        goingAlone: true
+      })}>Order Up Alone</Button>
+          <Button variant="outline" onClick={() => tryMove({
+        type: "pass"
+      })}>Pass</Button>
+        </div>}
+
+      {hint && <div className="bg-amber-50 border border-amber-200 rounded-md p-3 text-sm">
+          Not quite. {hint}
+        </div>}
+      {solved && <div className="bg-green-50 border border-green-200 rounded-md p-3 text-sm flex gap-2">
+          <CheckCircle2 className="w-5 h-5 text-green-600 shrink-0" />
+          <p>{step.explanation}</p>
+        </div>}
+    </div>
+  );
+};
+
+export default TutorialBoard;
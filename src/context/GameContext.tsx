@@ -1,8 +1,57 @@
 
 import React, { createContext, useContext, useReducer, useEffect } from "react";
+import { toast } from "sonner";
 import { GameState } from "@/types/game";
+import { GameEvent } from "@/engine/events";
 import { gameReducer, GameAction, initialState } from "@/reducers/gameReducer";
-import { loadGameState, saveGameState } from "@/utils/storage";
+import { loadGameState, saveGameReport, saveGameState } from "@/utils/storage";
+import { buildGameReport, getGameMarks } from "@/engine/report";
+import { getTeamName } from "@/engine/seating";
+
+// Who scored a hand: your team or the opponents, or the players by name without partners
+const describeScorers = (state: GameState, teams: number[]) =>
+  state.rules.mode === "partners"
+    ? teams[0] === 0 ? "Your team" : "Opponents"
+    : teams.map(team => getTeamName(state.rules, state.players, team)).join(" and ");
+
+// Turn an engine event into a toast
+const notify = (event: GameEvent, state: GameState) => {
+  switch (event.type) {
+    case "DEAL_FAILED":
+      toast.error(event.reason);
+      break;
+    case "GOING_ALONE":
+      toast.info(`${state.players[event.seat].name} is going alone!`, { duration: 2000 });
+      break;
+    case "DEALER_STUCK":
+      toast.info("Dealer must select trump!");
+      break;
+    case "JOKER_TURNED_UP":
+      toast.info(`The joker is turned up - ${state.players[event.dealer].name} names trump!`);
+      break;
+    case "HAND_THROWN_IN":
+      toast.info(`Everyone passed - ${state.players[event.dealer].name} deals the next hand.`);
+      break;
+    case "DEFENDING_ALONE":
+      toast.info(`${state.players[event.seat].name} is defending alone!`, { duration: 2000 });
+      break;
+    case "FARMERS_HAND":
+      toast.info(`${state.players[event.seat].name} swapped a farmer's hand for the kitty.`, { duration: 2000 });
+      break;
+    case "TRICK_WON":
+      toast.success(`${state.players[event.seat].name} wins the trick!`, { duration: 1500 });
+      break;
+    case "GAME_TIED":
+      toast.info(`${describeScorers(state, event.teams)} are tied on ${event.score} - play on until one of them leads!`);
+      break;
+    case "HAND_SCORED": {
+      const teamName = describeScorers(state, event.teams);
+      const result = event.euchred ? `${teamName} euchred the makers` : `${teamName} made it`;
+      toast.info(`${result} for ${event.points} point${event.points === 1 ? "" : "s"}!`, { duration: 1500 });
+      break;
+    }
+  }
+};
 
 const GameContext = createContext<{
   state: GameState;
@@ -17,7 +66,16 @@ export const GameProvider: React.FC<{ children: React.ReactNode }> = ({ children
   }, [state]);
 
   useEffect(() => {
-    if (state.phase !== "pre-game" && state.players[state.currentPlayer]?.isCPU && !state.shouldClearTrick) {
+    state.events.forEach((event) => notify(event, state));
+    // Keep a learning report for each finished game with graded decisions
+    if (state.phase === "game-over" && state.events.some(e => e.type === "HAND_SCORED") && getGameMarks(state, 0).length > 0) {
+      saveGameReport(buildGameReport(state, 0));
+    }
+    // Each new state carries only the events of the action that produced it, so every batch is announced once
+  }, [state]);
+
+  useEffect(() => {
+    if (state.phase !== "pre-game" && state.phase !== "game-over" && state.players[state.currentPlayer]?.isCPU && !state.shouldClearTrick) {
       const timer = setTimeout(() => {
         dispatch({ type: "CPU_PLAY" });
       }, 750);
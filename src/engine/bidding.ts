@@ -0,0 +1,166 @@
+import { Card, GameState, RuleSet, Suit } from "@/types/game";
+import { SUITS, getBestDiscard } from "@/utils/gameUtils";
+import { getEffectiveSuit, getSuitRank, isJoker, isLeftBower, isRightBower, isTrumpCard } from "@/utils/cardRanking";
+import { canGoAlone, isJokerTurnUp, mustDealerCall } from "@/engine/rules";
+import { nextSeat } from "@/engine/seating";
+import { getPlayableCards } from "@/engine/tableau";
+
+// Hand evaluation for bidding. A hand is scored in "expected tricks" for a given
+// trump suit, counting on partner for roughly one more trick, and the bid follows
+// from comparing that score to fixed thresholds (a higher one in cutthroat).
+
+export const CALL_THRESHOLD = 2.6;
+// A cutthroat maker has no partner and needs three tricks against two defenders
+export const CUTTHROAT_CALL_THRESHOLD = 3.0;
+// Two-handed counts the hand and the face-up tableau together: eight cards toward seven tricks of twelve
+export const TWO_HANDED_CALL_THRESHOLD = 3.6;
+export const ALONE_THRESHOLD = 4.3;
+// Defending alone has to beat a lone maker without partner's help
+export const DEFEND_ALONE_THRESHOLD = 3.5;
+
+// Trick value of each trump, indexed by getSuitRank: 7, 8, 9, 10, Q, K, A, left, right, joker
+const TRUMP_VALUES = [0.3, 0.35, 0.4, 0.45, 0.55, 0.65, 0.8, 0.9, 1.0, 1.0];
+
+export type BidContext = {
+  seat: number;
+  dealer: number;
+  round: 1 | 2;
+  turnUp?: Card;
+  // Who partners the bidder and who leads depend on the table
+  rules: RuleSet;
+};
+
+export type StrengthFactor = {
+  label: string;
+  value: number;
+};
+
+export type HandStrength = {
+  trump: Suit;
+  tricks: number;
+  factors: StrengthFactor[];
+};
+
+// `strength` is the evaluation behind the bid, when the bidder made one
+export type BidDecision =
+  | { action: "pass"; strength?: HandStrength }
+  | { action: "order-up"; goingAlone: boolean; strength?: HandStrength }
+  | { action: "call"; suit: Suit; goingAlone: boolean; strength?: HandStrength };
+
+const describe = (card: Card) => (isJoker(card) ? "joker" : `${card.rank} of ${card.suit}`);
+
+const trumpValue = (card: Card, trump: Suit) => TRUMP_VALUES[getSuitRank(card, trump)];
+
+export const getCallThreshold = (rules: RuleSet): number =>
+  rules.mode === "cutthroat" ? CUTTHROAT_CALL_THRESHOLD
+    : rules.mode === "two-handed" ? TWO_HANDED_CALL_THRESHOLD
+    : CALL_THRESHOLD;
+
+export const evaluateHand = (hand: Card[], trump: Suit, context: BidContext): HandStrength => {
+  const factors: StrengthFactor[] = [];
+  const { seat, dealer, round, turnUp, rules } = context;
+  // Only a partners table has a partner to count on
+  const partnerIsDealer = rules.mode === "partners" && (seat + 2) % 4 === dealer;
+
+  // The dealer evaluates the hand they would hold after picking up and discarding
+  let cards = hand;
+  if (round === 1 && turnUp && seat === dealer) {
+    const withTurnUp = [...hand, turnUp];
+    const discard = getBestDiscard(withTurnUp, trump);
+    cards = withTurnUp.filter(c => c.id !== discard.id);
+    factors.push({ label: `You pick up the ${describe(turnUp)}`, value: 0 });
+  }
+
+  const trumpCards = cards.filter(c => isTrumpCard(c, trump));
+  trumpCards.forEach(card => {
+    const label = isJoker(card) ? "Joker"
+      : isRightBower(card, trump) ? "Right bower"
+      : isLeftBower(card, trump) ? "Left bower"
+      : `${card.rank} of trump`;
+    factors.push({ label, value: trumpValue(card, trump) });
+  });
+
+  if (trumpCards.length >= 4) {
+    factors.push({ label: `${trumpCards.length} trump`, value: 0.3 });
+  }
+
+  const offSuits = SUITS.filter(suit => suit !== trump);
+  offSuits.forEach(suit => {
+    const suitCards = cards.filter(c => !isTrumpCard(c, trump) && getEffectiveSuit(c, trump) === suit);
+    const hasAce = suitCards.some(c => c.rank === "A");
+    const hasKing = suitCards.some(c => c.rank === "K");
+
+    if (suitCards.length === 0) {
+      if (trumpCards.length >= 2) {
+        factors.push({ label: `Void in ${suit}`, value: 0.3 });
+      }
+      return;
+    }
+    if (hasAce) {
+      // Long suits are likely to get trumped before the ace cashes
+      factors.push({ label: `Ace of ${suit}`, value: suitCards.length <= 2 ? 0.75 : 0.5 });
+      if (hasKing) factors.push({ label: `King of ${suit} behind the ace`, value: 0.25 });
+    } else if (hasKing && suitCards.length <= 2) {
+      factors.push({ label: `King of ${suit}`, value: 0.15 });
+    }
+  });
+
+  // In the first round the turn-up goes to the dealer's team
+  if (round === 1 && turnUp && seat !== dealer) {
+    if (partnerIsDealer) {
+      factors.push({ label: `Partner picks up the ${describe(turnUp)}`, value: 0.6 * trumpValue(turnUp, trump) });
+    } else {
+      factors.push({ label: `Opponents pick up the ${describe(turnUp)}`, value: -0.5 * trumpValue(turnUp, trump) });
+    }
+  }
+
+  // Leading the first trick helps the maker draw trump early
+  if (round === 2 && seat === nextSeat(rules, dealer)) {
+    factors.push({ label: "You lead the first trick", value: 0.15 });
+  }
+
+  const tricks = factors.reduce((total, factor) => total + factor.value, 0);
+  return { trump, tricks, factors };
+};
+
+// How `seat` counts a hand when naming trump: a turned-up joker is still theirs to pick up
+export const getCallingContext = (state: GameState, seat: number): BidContext =>
+  isJokerTurnUp(state)
+    ? { seat, dealer: state.dealer, round: 1, turnUp: state.turnUp, rules: state.rules }
+    : { seat, dealer: state.dealer, round: 2, rules: state.rules };
+
+// How `seat` counts a hand for the bid in front of it: ordering up the turn-up, or naming trump
+export const getBidContext = (state: GameState, seat: number): BidContext =>
+  state.phase === "bidding"
+    ? { seat, dealer: state.dealer, round: 1, turnUp: state.turnUp, rules: state.rules }
+    : getCallingContext(state, seat);
+
+export const getBidDecision = (state: GameState, seat: number): BidDecision => {
+  const hand = getPlayableCards(state.players[seat]);
+  const threshold = getCallThreshold(state.rules);
+
+  if (state.phase === "bidding" && state.turnUp) {
+    const strength = evaluateHand(hand, state.turnUp.suit, getBidContext(state, seat));
+    if (strength.tricks >= threshold) {
+      return { action: "order-up", goingAlone: strength.tricks >= ALONE_THRESHOLD && canGoAlone(state, seat), strength };
+    }
+    return { action: "pass", strength };
+  }
+
+  const options = SUITS.filter(suit => suit !== state.turnedDown).map(suit =>
+    evaluateHand(hand, suit, getBidContext(state, seat))
+  );
+  const best = options.reduce((top, option) => (option.tricks > top.tricks ? option : top));
+
+  // A stuck dealer can't pass in the second round
+  if (best.tricks >= threshold || mustDealerCall(state, seat)) {
+    return { action: "call", suit: best.trump, goingAlone: best.tricks >= ALONE_THRESHOLD && canGoAlone(state, seat), strength: best };
+  }
+  return { action: "pass", strength: best };
+};
+
+// Whether `seat` should defend alone against a lone maker, counting its hand as if it had named the trump
+export const getDefendAloneDecision = (state: GameState, seat: number): boolean => {
+  const strength = evaluateHand(getPlayableCards(state.players[seat]), state.trump, { seat, dealer: state.dealer, round: 2, rules: state.rules });
+  return strength.tricks >= DEFEND_ALONE_THRESHOLD;
+};
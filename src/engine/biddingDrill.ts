@@ -0,0 +1,67 @@
+import { CoachMark, GameState } from "@/types/game";
+import { applyAction, GameAction, initialState } from "@/reducers/gameReducer";
+import { BidDecision } from "@/engine/bidding";
+import { Advice, getAdvice, markDecision } from "@/engine/coach";
+import { createRng } from "@/engine/rng";
+import { WINNING_SCORE } from "@/utils/gameUtils";
+
+// Rapid-fire bidding practice. Each drill is a real deal played forward on the
+// engine until it's your (seat 0's) turn to bid, so the answer is graded by the
+// same heuristic bidder and coach as a bid in a game.
+
+// Where you sit relative to the dealer: 0 is left of the dealer, 3 is the dealer
+export const SEAT_POSITIONS = ["Left of the dealer", "Across from the dealer", "Right of the dealer", "Dealer"];
+
+export type BiddingDrill = {
+  seed: number;
+  state: GameState;
+  position: number;
+  round: 1 | 2;
+};
+
+export type DrillResult = {
+  mark: CoachMark;
+  advice: Advice;
+};
+
+export type DrillTally = {
+  answered: number;
+  correct: number;
+};
+
+// Indexed by seat position, then round - 1
+export type DrillStats = DrillTally[][];
+
+export const createDrillStats = (): DrillStats =>
+  SEAT_POSITIONS.map(() => [{ answered: 0, correct: 0 }, { answered: 0, correct: 0 }]);
+
+export const createBiddingDrill = (seed: number): BiddingDrill => {
+  const rng = createRng(seed);
+  const position = rng.int(4);
+  const round: 1 | 2 = rng.int(2) === 0 ? 1 : 2;
+  const dealer = (3 - position + 4) % 4;
+  // Any score a hand can start from, short of a win
+  const scores: [number, number] = [rng.int(WINNING_SCORE), rng.int(WINNING_SCORE)];
+
+  const step = (state: GameState, action: GameAction) => applyAction(state, action).state;
+  let state = step(initialState, { type: "START_GAME", deal: { seed: rng.int(0x100000000), dealer, rules: initialState.rules } });
+  state = step(state, { type: "DEAL" });
+  // Everyone before you passes, through the whole first round when drilling the second
+  while (state.currentPlayer !== 0 || (round === 2 && state.phase === "bidding")) {
+    state = step(state, { type: "PASS" });
+  }
+
+  return { seed, state: { ...state, scores }, position, round };
+};
+
+export const gradeDrillAnswer = (drill: BiddingDrill, bid: BidDecision): DrillResult => ({
+  mark: markDecision(drill.state, 0, { type: "bid", bid }),
+  advice: getAdvice(drill.state, 0),
+});
+
+export const recordDrillAnswer = (stats: DrillStats, drill: BiddingDrill, correct: boolean): DrillStats =>
+  stats.map((rounds, position) => rounds.map((tally, i) =>
+    position === drill.position && i === drill.round - 1
+      ? { answered: tally.answered + 1, correct: tally.correct + (correct ? 1 : 0) }
+      : tally
+  ));
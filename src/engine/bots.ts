@@ -0,0 +1,126 @@
+import { BotLevel, Card, GameState } from "@/types/game";
+import { Rng } from "@/engine/rng";
+import { ALONE_THRESHOLD, BidDecision, getBidDecision, getCallThreshold, getDefendAloneDecision } from "@/engine/bidding";
+import { getBestPlay } from "@/engine/cardPlay";
+import { canGoAlone, mustDealerCall } from "@/engine/rules";
+import { chooseMonteCarloBid, chooseMonteCarloPlay, Simulator } from "@/engine/monteCarlo";
+import { getPlayableCards } from "@/engine/tableau";
+import { determineWinner, getBestDiscard, getLegalPlays } from "@/utils/gameUtils";
+import { getEffectiveSuit, getHighestCard, getLowestCard, isTrumpCard, isWinningCard } from "@/utils/cardRanking";
+
+// What the engine hands a bot besides the state: the game's seeded RNG, so bots
+// stay deterministic for a given seed, and the reducer for looking ahead
+export type BotContext = {
+  rng: Rng;
+  simulate: Simulator;
+};
+
+// A CPU opponent or partner. Every decision gets the full game state and the seat
+// it is playing; bots must only look at that seat's own hand.
+export type BotStrategy = {
+  level: BotLevel;
+  name: string;
+  description: string;
+  chooseBid: (state: GameState, seat: number, context: BotContext) => BidDecision;
+  chooseDefendAlone: (state: GameState, seat: number, context: BotContext) => boolean;
+  chooseDiscard: (state: GameState, seat: number, context: BotContext) => Card;
+  choosePlay: (state: GameState, seat: number, context: BotContext) => Card;
+};
+
+export const DEFAULT_BOT_LEVEL: BotLevel = "advanced";
+
+const legalCards = (state: GameState, seat: number): Card[] => {
+  const hand = getPlayableCards(state.players[seat]);
+  const trick = state.trickCards.map(play => play.card);
+  return getLegalPlays(hand, trick, state.trump);
+};
+
+// Misjudges hands by up to half a trick either way and plays any legal card
+const beginner: BotStrategy = {
+  level: "beginner",
+  name: "Beginner",
+  description: "Guesses at bids and plays any legal card.",
+  chooseBid: (state, seat, { rng }) => {
+    const decision = getBidDecision(state, seat);
+    if (!decision.strength) return decision;
+
+    const guess = decision.strength.tricks + (rng.next() - 0.5);
+    if (guess < getCallThreshold(state.rules) && !mustDealerCall(state, seat)) return { action: "pass", strength: decision.strength };
+
+    const goingAlone = guess >= ALONE_THRESHOLD && canGoAlone(state, seat);
+    if (state.phase === "bidding") {
+      return { action: "order-up", goingAlone, strength: decision.strength };
+    }
+    return { action: "call", suit: decision.strength.trump, goingAlone, strength: decision.strength };
+  },
+  chooseDefendAlone: (_state, _seat, { rng }) => rng.next() < 0.1,
+  chooseDiscard: (state, seat, { rng }) => {
+    const nonTrump = state.players[seat].hand.filter(c => !isTrumpCard(c, state.trump));
+    const options = nonTrump.length > 0 ? nonTrump : state.players[seat].hand;
+    return options[rng.int(options.length)];
+  },
+  choosePlay: (state, seat, { rng }) => {
+    const legal = legalCards(state, seat);
+    return legal[rng.int(legal.length)];
+  },
+};
+
+// Bids soundly but never goes alone; tries to win every trick it can and
+// ignores what partner is doing
+const intermediate: BotStrategy = {
+  level: "intermediate",
+  name: "Intermediate",
+  description: "Bids soundly, but plays to win each trick without watching partner.",
+  chooseBid: (state, seat) => {
+    const decision = getBidDecision(state, seat);
+    return decision.action === "pass" ? decision : { ...decision, goingAlone: false };
+  },
+  chooseDefendAlone: () => false,
+  chooseDiscard: (state, seat) => getBestDiscard(state.players[seat].hand, state.trump),
+  choosePlay: (state, seat) => {
+    const { trump } = state;
+    const legal = legalCards(state, seat);
+    if (state.trickCards.length === 0) {
+      const offSuit = legal.filter(c => !isTrumpCard(c, trump));
+      return getHighestCard(offSuit.length > 0 ? offSuit : legal, trump);
+    }
+
+    const trick = state.trickCards.map(play => play.card);
+    const leadSuit = getEffectiveSuit(trick[0], trump);
+    const winningCard = trick[determineWinner(trick, trump)];
+    const winners = legal.filter(c => isWinningCard(c, winningCard, trump, leadSuit));
+    return winners.length > 0 ? getLowestCard(winners, trump) : getLowestCard(legal, trump);
+  },
+};
+
+// The full bidding evaluation and partner-aware card play
+const advanced: BotStrategy = {
+  level: "advanced",
+  name: "Advanced",
+  description: "Counts hand strength, goes alone on big hands and plays with partner.",
+  chooseBid: (state, seat) => getBidDecision(state, seat),
+  chooseDefendAlone: (state, seat) => getDefendAloneDecision(state, seat),
+  chooseDiscard: (state, seat) => getBestDiscard(state.players[seat].hand, state.trump),
+  choosePlay: (state, seat) => getBestPlay(state, seat),
+};
+
+// Samples the hidden hands and plays each option out with advanced bots
+const expert: BotStrategy = {
+  level: "expert",
+  name: "Expert",
+  description: "Works out who could hold what and simulates every option.",
+  chooseBid: (state, seat, { rng, simulate }) => chooseMonteCarloBid(state, seat, rng, simulate),
+  chooseDefendAlone: (state, seat) => getDefendAloneDecision(state, seat),
+  chooseDiscard: (state, seat) => getBestDiscard(state.players[seat].hand, state.trump),
+  choosePlay: (state, seat, { rng, simulate }) => chooseMonteCarloPlay(state, seat, rng, simulate),
+};
+
+export const BOT_STRATEGIES: Record<BotLevel, BotStrategy> = {
+  beginner,
+  intermediate,
+  advanced,
+  expert,
+};
+
+export const getBotStrategy = (level?: BotLevel): BotStrategy =>
+  BOT_STRATEGIES[level ?? DEFAULT_BOT_LEVEL] ?? BOT_STRATEGIES[DEFAULT_BOT_LEVEL];
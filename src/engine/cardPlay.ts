@@ -0,0 +1,146 @@
+import { Card, GameState, Suit } from "@/types/game";
+import { determineWinner, getLegalPlays } from "@/utils/gameUtils";
+import {
+  getEffectiveSuit,
+  getHighestCard,
+  getLowestCard,
+  isJoker,
+  isRightBower,
+  isTrumpCard,
+  isWinningCard,
+} from "@/utils/cardRanking";
+import { isMakerSide, onSameSide } from "@/engine/seating";
+import { getPlayableCards } from "@/engine/tableau";
+
+// Card-play policy shared by the CPU seats and the learning-mode suggestions.
+// It only looks at the current trick and who made trump, the same information a
+// careful human player has in front of them.
+
+export type TrickSituation = {
+  leadSuit?: Suit;
+  winningCard?: Card;
+  winningSeat?: number;
+  partnerWinning: boolean;
+  // Players still to play after this seat
+  playersToCome: number;
+};
+
+
+export const getTrickSituation = (state: GameState, seat: number): TrickSituation => {
+  const activeCount = state.players.filter(p => !p.sittingOut).length;
+  const playersToCome = activeCount - state.trickCards.length - 1;
+
+  if (state.trickCards.length === 0) {
+    return { partnerWinning: false, playersToCome };
+  }
+
+  const cards = state.trickCards.map(play => play.card);
+  const winner = state.trickCards[determineWinner(cards, state.trump)];
+
+  return {
+    leadSuit: getEffectiveSuit(cards[0], state.trump),
+    winningCard: winner.card,
+    winningSeat: winner.seat,
+    partnerWinning: winner.seat !== seat && onSameSide(state, winner.seat, seat),
+    playersToCome,
+  };
+};
+
+// Cheapest card to give away: the lowest card of the shortest off-suit, so the
+// hand gets closer to a void. Aces and trump are kept as long as possible.
+export const getThrowOff = (cards: Card[], hand: Card[], trump: Suit): Card => {
+  const nonTrump = cards.filter(c => !isTrumpCard(c, trump));
+  if (nonTrump.length === 0) return getLowestCard(cards, trump);
+
+  const nonAces = nonTrump.filter(c => c.rank !== "A");
+  const candidates = nonAces.length > 0 ? nonAces : nonTrump;
+  const suitLength = (card: Card) =>
+    hand.filter(c => !isTrumpCard(c, trump) && c.suit === card.suit).length;
+
+  return candidates.reduce((best, card) => {
+    if (suitLength(card) !== suitLength(best)) {
+      return suitLength(card) < suitLength(best) ? card : best;
+    }
+    return getLowestCard([best, card], trump);
+  });
+};
+
+const chooseLead = (state: GameState, seat: number, hand: Card[]): Card => {
+  const { trump } = state;
+  const trumpCards = hand.filter(c => isTrumpCard(c, trump));
+  const offSuit = hand.filter(c => !isTrumpCard(c, trump));
+
+  // The maker pulls the defenders' trump while holding the top of it
+  if (seat === state.trumpSelector && trumpCards.length >= 2) {
+    return getHighestCard(trumpCards, trump);
+  }
+
+  const aces = offSuit.filter(c => c.rank === "A");
+  if (aces.length > 0) {
+    // Cash the ace of the shortest suit first - it is the least likely to be trumped
+    return getThrowOff(aces, hand, trump);
+  }
+
+  if (offSuit.length === 0) {
+    return isMakerSide(state, seat) ? getHighestCard(trumpCards, trump) : getLowestCard(trumpCards, trump);
+  }
+
+  // Lead low from a short suit so partner gets a chance and a void opens up
+  return getThrowOff(offSuit, hand, trump);
+};
+
+const chooseFollow = (state: GameState, seat: number, hand: Card[], legal: Card[]): Card => {
+  const { trump } = state;
+  const situation = getTrickSituation(state, seat);
+  const { leadSuit, winningCard, partnerWinning, playersToCome } = situation;
+  const followingSuit = legal.some(c => getEffectiveSuit(c, trump) === leadSuit);
+  const winners = legal.filter(c => isWinningCard(c, winningCard, trump, leadSuit));
+
+  if (partnerWinning) {
+    // Partner has it unless a strong card is beaten by someone still to play
+    const partnerSafe = playersToCome === 0 ||
+      isTrumpCard(winningCard, trump) ||
+      winningCard.rank === "A";
+    if (partnerSafe || winners.length === 0) {
+      return followingSuit ? getLowestCard(legal, trump) : getThrowOff(legal, hand, trump);
+    }
+    // Third hand high: take over a weak lead before the last opponent can
+    return getHighestCard(winners, trump);
+  }
+
+  if (winners.length === 0) {
+    return followingSuit ? getLowestCard(legal, trump) : getThrowOff(legal, hand, trump);
+  }
+
+  if (!followingSuit) {
+    // Out of the led suit: trump in as cheaply as possible
+    return getLowestCard(winners, trump);
+  }
+
+  if (playersToCome === 0) {
+    return getLowestCard(winners, trump);
+  }
+
+  // Second hand low, third hand high
+  const isSecondHand = state.trickCards.length === 1 && playersToCome > 1;
+  if (isSecondHand) {
+    const topWinner = getHighestCard(winners, trump);
+    // The right bower is only the boss trump when there's no joker above it
+    const boss = isTrumpCard(topWinner, trump)
+      ? isJoker(topWinner) || (isRightBower(topWinner, trump) && !state.rules.joker)
+      : topWinner.rank === "A";
+    return boss ? topWinner : getLowestCard(legal, trump);
+  }
+  return getHighestCard(winners, trump);
+};
+
+// Best card for `seat` to play right now
+export const getBestPlay = (state: GameState, seat: number): Card => {
+  const hand = getPlayableCards(state.players[seat]);
+  const trick = state.trickCards.map(play => play.card);
+  const legal = getLegalPlays(hand, trick, state.trump);
+  if (legal.length <= 1) return legal[0];
+
+  if (trick.length === 0) return chooseLead(state, seat, hand);
+  return chooseFollow(state, seat, hand, legal);
+};
@@ -0,0 +1,392 @@
+import { Card, CoachMark, GameState } from "@/types/game";
+import { BidDecision, ALONE_THRESHOLD, HandStrength, evaluateHand, getBidContext, getBidDecision, getCallThreshold } from "@/engine/bidding";
+import { getBestPlay, getTrickSituation } from "@/engine/cardPlay";
+import { getConventionPlay } from "@/engine/conventions";
+import { canGoAlone, isJokerTurnUp, mustDealerCall } from "@/engine/rules";
+import { getKnownVoids, getPlayedCards } from "@/engine/monteCarlo";
+import { getDiscardValues, getPlayValues, positionFromState } from "@/engine/solver";
+import { isMakerSide } from "@/engine/seating";
+import { getPlayableCards } from "@/engine/tableau";
+import { describeCard, getBestDiscard, getLegalPlays, SUITS } from "@/utils/gameUtils";
+import {
+  getEffectiveSuit,
+  getLeftBowerSuit,
+  getTrumpOrder,
+  isJoker,
+  isLeftBower,
+  isRightBower,
+  isTrumpCard,
+  isWinningCard,
+} from "@/utils/cardRanking";
+
+// Coaching for the learning panel: what to do, what else was considered, and why,
+// with the facts on the table that back each reason up.
+
+export type CoachAction =
+  | { type: "bid"; bid: BidDecision }
+  | { type: "discard"; card: Card }
+  | { type: "play"; card: Card };
+
+export type CoachOption = {
+  action: CoachAction;
+  label: string;
+  note: string;
+};
+
+export type CoachReason = {
+  summary: string;
+  facts: string[];
+};
+
+export type Advice = {
+  recommended: CoachOption;
+  alternatives: CoachOption[];
+  reasons: CoachReason[];
+};
+
+const formatTricks = (tricks: number) => tricks.toFixed(1);
+
+const formatFactor = (value: number) => `${value > 0 ? "+" : ""}${Math.round(value * 100) / 100}`;
+
+const bidLabel = (bid: BidDecision): string => {
+  if (bid.action === "pass") return "Pass";
+  const alone = bid.goingAlone ? " and go alone" : "";
+  if (bid.action === "order-up") return `Order it up${alone}`;
+  return `Call ${bid.suit}${alone}`;
+};
+
+const strengthFacts = (strength: HandStrength): string[] =>
+  strength.factors.map(factor =>
+    factor.value === 0 ? factor.label : `${factor.label} (${formatFactor(factor.value)})`
+  );
+
+const getBiddingAdvice = (state: GameState, seat: number): Advice => {
+  const hand = getPlayableCards(state.players[seat]);
+  const decision = getBidDecision(state, seat);
+  const mustCall = mustDealerCall(state, seat);
+  const threshold = getCallThreshold(state.rules);
+
+  const strengths: HandStrength[] = state.phase === "bidding" && state.turnUp
+    ? [evaluateHand(hand, state.turnUp.suit, getBidContext(state, seat))]
+    : SUITS.filter(suit => suit !== state.turnedDown).map(suit =>
+      evaluateHand(hand, suit, getBidContext(state, seat))
+    );
+
+  const options: CoachOption[] = [];
+  if (!mustCall) {
+    options.push({
+      action: { type: "bid", bid: { action: "pass" } },
+      label: "Pass",
+      note: `Safe unless the hand counts at least ${formatTricks(threshold)} tricks`,
+    });
+  }
+  strengths.forEach(strength => {
+    const bid: BidDecision = state.phase === "bidding"
+      ? { action: "order-up", goingAlone: false, strength }
+      : { action: "call", suit: strength.trump, goingAlone: false, strength };
+    options.push({
+      action: { type: "bid", bid },
+      label: bidLabel(bid),
+      note: `Counts ${formatTricks(strength.tricks)} tricks with ${strength.trump} as trump`,
+    });
+    if (strength.tricks >= threshold && canGoAlone(state, seat)) {
+      const alone = { ...bid, goingAlone: true };
+      options.push({
+        action: { type: "bid", bid: alone },
+        label: bidLabel(alone),
+        note: `Going alone needs about ${formatTricks(ALONE_THRESHOLD)} tricks`,
+      });
+    }
+  });
+
+  const recommendedLabel = bidLabel(decision);
+  const recommended = options.find(option => option.label === recommendedLabel) ?? options[0];
+  const strength = decision.strength;
+  const reasons: CoachReason[] = [];
+
+  if (decision.action === "pass") {
+    reasons.push({
+      summary: state.rules.mode === "partners"
+        ? `Your best trump only counts ${formatTricks(strength.tricks)} tricks - you need about ${formatTricks(threshold)} to make it with your partner's help.`
+        : `Your best trump only counts ${formatTricks(strength.tricks)} tricks - you need about ${formatTricks(threshold)} to make it on your own.`,
+      facts: strengthFacts(strength),
+    });
+  } else {
+    const summary = mustCall
+      ? `As dealer you have to name trump - ${strength.trump} is your strongest suit at ${formatTricks(strength.tricks)} tricks.`
+      : `Your hand counts ${formatTricks(strength.tricks)} tricks with ${strength.trump} as trump, enough to call it (${formatTricks(threshold)} needed).`;
+    reasons.push({ summary, facts: strengthFacts(strength) });
+    if (decision.goingAlone) {
+      reasons.push({
+        summary: "That's strong enough to play without your partner for 4 points.",
+        facts: [`Going alone needs about ${formatTricks(ALONE_THRESHOLD)} tricks`],
+      });
+    }
+  }
+
+  if (isJokerTurnUp(state)) {
+    reasons.push({
+      summary: "The joker was turned up, so you name trump and pick it up as the highest trump.",
+      facts: ["Any suit can be trump", "Your hand is counted with the joker in it"],
+    });
+  }
+  if (state.phase === "calling" && state.turnedDown) {
+    reasons.push({
+      summary: `The turned-down suit, ${state.turnedDown}, can't be trump this hand.`,
+      facts: [`"Next" is ${getLeftBowerSuit(state.turnedDown)}, the same colour as the turned-down suit`],
+    });
+  }
+
+  return {
+    recommended,
+    alternatives: options.filter(option => option !== recommended),
+    reasons,
+  };
+};
+
+const getDiscardAdvice = (state: GameState, seat: number): Advice => {
+  const { trump } = state;
+  const hand = state.players[seat].hand;
+  const card = getBestDiscard(hand, trump);
+  const facts: string[] = [];
+
+  const trumpCount = hand.filter(c => isTrumpCard(c, trump)).length;
+  if (!isTrumpCard(card, trump)) facts.push(`Keeps all ${trumpCount} of your trump`);
+  const suitCount = hand.filter(c => !isTrumpCard(c, trump) && c.suit === card.suit).length;
+  if (suitCount === 1) facts.push(`Leaves you void in ${card.suit}, so you can trump that suit`);
+  if (card.rank !== "A" && hand.some(c => c.rank === "A" && !isTrumpCard(c, trump))) facts.push("Keeps your off-suit aces");
+
+  return {
+    recommended: { action: { type: "discard", card }, label: `Discard the ${describeCard(card)}`, note: "Your weakest card" },
+    alternatives: hand
+      .filter(c => c.id !== card.id)
+      .map(c => ({
+        action: { type: "discard", card: c },
+        label: `Discard the ${describeCard(c)}`,
+        note: isTrumpCard(c, trump) ? "Gives up a trump" : c.rank === "A" ? "Gives up a likely winner" : "Keeps a weaker card",
+      })),
+    reasons: [{ summary: "Throw away the card least likely to take a trick.", facts }],
+  };
+};
+
+// What the table shows about trump and voids, from `seat`'s point of view
+const getTableFacts = (state: GameState, seat: number): string[] => {
+  const { trump } = state;
+  const facts: string[] = [];
+  const hand = getPlayableCards(state.players[seat]);
+  const played = getPlayedCards(state);
+
+  const bowerFact = (name: string, isBower: (card: Card) => boolean) => {
+    if (played.some(isBower)) return `The ${name} is out`;
+    if (hand.some(isBower)) return `You hold the ${name}`;
+    return `The ${name} hasn't been played yet`;
+  };
+  if (state.rules.joker) facts.push(bowerFact("joker", isJoker));
+  facts.push(bowerFact("right bower", c => isRightBower(c, trump)));
+  facts.push(bowerFact("left bower", c => isLeftBower(c, trump)));
+
+  const trumpPlayed = played.filter(c => isTrumpCard(c, trump)).length;
+  facts.push(`Trump played so far: ${trumpPlayed} of ${getTrumpOrder(trump, state.rules).length}`);
+
+  getKnownVoids(state).forEach((suits, other) => {
+    if (other === seat) return;
+    suits.forEach(suit => facts.push(`${state.players[other].name} is out of ${suit}`));
+  });
+  return facts;
+};
+
+const describeLead = (state: GameState, seat: number, card: Card): CoachReason => {
+  const { trump } = state;
+  const hand = getPlayableCards(state.players[seat]);
+  const trumpCount = hand.filter(c => isTrumpCard(c, trump)).length;
+  const makers = isMakerSide(state, seat);
+  const facts = [makers ? "Your team called trump" : "The other team called trump", `You hold ${trumpCount} trump`];
+
+  if (isTrumpCard(card, trump)) {
+    if (trumpCount === hand.length) {
+      return { summary: "You only have trump left, so lead it.", facts };
+    }
+    return makers
+      ? { summary: "Lead trump to pull the defenders' trump before they can ruff your winners.", facts }
+      : { summary: "Leading trump as a defender helps the makers - it pulls your partner's trump.", facts };
+  }
+  const suitCount = hand.filter(c => !isTrumpCard(c, trump) && c.suit === card.suit).length;
+  facts.push(`You hold ${suitCount} ${card.suit}`);
+  if (card.rank === "A") {
+    return { summary: "Cash an ace while everyone can still follow suit.", facts };
+  }
+  return { summary: "Lead low from a short suit so your partner can win it and you get closer to a void.", facts };
+};
+
+const describePlay = (state: GameState, seat: number, card: Card): CoachReason => {
+  if (state.trickCards.length === 0) return describeLead(state, seat, card);
+
+  const { trump } = state;
+  const { leadSuit, winningCard, winningSeat, partnerWinning, playersToCome } = getTrickSituation(state, seat);
+  const facts: string[] = [];
+
+  facts.push(partnerWinning
+    ? `Your partner is winning with the ${describeCard(winningCard)}`
+    : `${state.players[winningSeat].name} is winning with the ${describeCard(winningCard)}`);
+  facts.push(playersToCome === 0 ? "You're last to play" : `${playersToCome} player${playersToCome === 1 ? "" : "s"} still to play after you`);
+
+  const following = getEffectiveSuit(card, trump) === leadSuit;
+  const wins = isWinningCard(card, winningCard, trump, leadSuit);
+  if (!following) facts.push(`You're out of ${leadSuit}`);
+
+  if (partnerWinning && wins) {
+    return { summary: "Your partner's card could still be beaten, so take the trick over while you can.", facts };
+  }
+  if (partnerWinning) {
+    return { summary: "Your partner has this trick - keep your strong cards and play low.", facts };
+  }
+  if (wins && !following) {
+    return { summary: "Trump in as cheaply as possible to take the trick.", facts };
+  }
+  if (wins && playersToCome === 0) {
+    return { summary: "Win the trick with the smallest card that does it.", facts };
+  }
+  if (wins) {
+    return { summary: "Play high to win the trick and make the players after you spend their best cards.", facts };
+  }
+  if (!following) {
+    return { summary: "You can't win this trick, so throw off a loser and work toward a void.", facts };
+  }
+  if (state.trickCards.length === 1 && playersToCome > 1) {
+    return { summary: "Second hand low: your partner still plays after you, so save your high cards.", facts };
+  }
+  return { summary: "You can't win this trick - play low and save your higher cards.", facts };
+};
+
+// How another legal card compares with the recommended one
+const describeAlternative = (state: GameState, seat: number, card: Card, best: Card): string => {
+  const { trump } = state;
+  if (state.trickCards.length === 0) {
+    if (isTrumpCard(card, trump) !== isTrumpCard(best, trump)) {
+      return isTrumpCard(card, trump) ? "Leads trump instead" : "Leads an off-suit instead of trump";
+    }
+    return getEffectiveSuit(card, trump) === getEffectiveSuit(best, trump) ? "Same suit, different card" : "Opens a different suit";
+  }
+
+  const { leadSuit, winningCard, partnerWinning } = getTrickSituation(state, seat);
+  const wins = isWinningCard(card, winningCard, trump, leadSuit);
+  const bestWins = isWinningCard(best, winningCard, trump, leadSuit);
+  if (partnerWinning && wins) return "Overtakes your partner";
+  if (wins && bestWins) return "Also wins, but spends a stronger card";
+  if (wins) return "Wins the trick now, but spends a card you may need later";
+  if (bestWins) return "Gives up a trick you can take";
+  if (isTrumpCard(card, trump)) return "Wastes a trump on a trick you can't win";
+  return "Throws away a card you may want later";
+};
+
+const getPlayAdvice = (state: GameState, seat: number): Advice => {
+  const hand = getPlayableCards(state.players[seat]);
+  const trick = state.trickCards.map(play => play.card);
+  const legal = getLegalPlays(hand, trick, state.trump);
+  const convention = getConventionPlay(state, seat);
+  const card = convention?.card ?? getBestPlay(state, seat);
+  const described = describePlay(state, seat, card);
+  const reason = legal.length === 1 ? { ...described, summary: "It's your only legal play." }
+    : convention ? { ...described, summary: convention.reason }
+    : described;
+
+  return {
+    recommended: { action: { type: "play", card }, label: `Play the ${describeCard(card)}`, note: reason.summary },
+    alternatives: legal
+      .filter(c => c.id !== card.id)
+      .map(c => ({
+        action: { type: "play", card: c },
+        label: `Play the ${describeCard(c)}`,
+        note: describeAlternative(state, seat, c, card),
+      })),
+    reasons: [reason, { summary: "What's been played so far:", facts: getTableFacts(state, seat) }],
+  };
+};
+
+// Advice for `seat`'s current decision, or null when it isn't their turn to decide anything
+export const getAdvice = (state: GameState, seat: number): Advice | null => {
+  if (state.currentPlayer !== seat || state.shouldClearTrick) return null;
+  if (state.phase === "bidding" || state.phase === "calling") return getBiddingAdvice(state, seat);
+  if (state.phase === "discarding") return getDiscardAdvice(state, seat);
+  if (state.phase === "playing" && state.trump) return getPlayAdvice(state, seat);
+  return null;
+};
+
+export const labelAction = (action: CoachAction): string => {
+  if (action.type === "bid") return bidLabel(action.bid);
+  if (action.type === "discard") return `Discard the ${describeCard(action.card)}`;
+  return `Play the ${describeCard(action.card)}`;
+};
+
+// Expected tricks given up by bidding `bid` instead of `suggested` (see engine/bidding)
+const getBidCost = (state: GameState, seat: number, bid: BidDecision, suggested: BidDecision): number => {
+  const best = suggested.strength?.tricks ?? 0;
+  const threshold = getCallThreshold(state.rules);
+  if (bid.action === "pass") return Math.max(best - threshold, 0);
+
+  const trump = bid.action === "order-up" ? state.turnUp.suit : bid.suit;
+  const chosen = evaluateHand(getPlayableCards(state.players[seat]), trump, getBidContext(state, seat)).tricks;
+
+  let cost = suggested.action === "pass" ? threshold - chosen : best - chosen;
+  if (bid.goingAlone && !(suggested.action !== "pass" && suggested.goingAlone)) cost += ALONE_THRESHOLD - chosen;
+  if (!bid.goingAlone && suggested.action !== "pass" && suggested.goingAlone) cost += best - ALONE_THRESHOLD;
+  return Math.max(cost, 0);
+};
+
+// Tricks given up with every hand face up (see engine/solver)
+const getPlayCost = (state: GameState, card: Card): number => {
+  // The solver can't play out a two-handed tableau's face-down cards, so those plays go ungraded
+  if (state.rules.mode === "two-handed") return 0;
+  const values = getPlayValues(positionFromState(state));
+  const best = Math.max(...values.map(v => v.tricks));
+  const played = values.find(v => v.card.id === card.id);
+  return played ? best - played.tricks : 0;
+};
+
+const getDiscardCost = (state: GameState, seat: number, card: Card): number => {
+  const active = state.players.map(p => !p.sittingOut);
+  let leader = (seat + 1) % 4;
+  while (!active[leader]) leader = (leader + 1) % 4;
+
+  const values = getDiscardValues({ ...positionFromState(state), hands: state.players.map(p => p.hand), toPlay: leader }, seat);
+  const best = Math.max(...values.map(v => v.tricks));
+  const discarded = values.find(v => v.card.id === card.id);
+  return discarded ? best - discarded.tricks : 0;
+};
+
+// How a decision `seat` is about to make compares with the coach's advice, and
+// what it costs when they differ
+export const markDecision = (state: GameState, seat: number, action: CoachAction): CoachMark | null => {
+  const advice = getAdvice(state, seat);
+  if (!advice) return null;
+
+  const chosen = labelAction(action);
+  const suggested = advice.recommended.label;
+  const agreed = chosen === suggested;
+  const recommended = advice.recommended.action;
+
+  let kind: CoachMark["kind"] = action.type === "discard" ? "discard" : state.trickCards.length === 0 ? "lead" : "follow";
+  let cost = 0;
+  if (action.type === "bid" && recommended.type === "bid") {
+    const { bid } = action;
+    const best = recommended.bid;
+    // Agreeing on trump but not on whether to go alone is a loner decision
+    const sameTrump = bid.action !== "pass" && best.action !== "pass" &&
+      bidLabel({ ...bid, goingAlone: false }) === bidLabel({ ...best, goingAlone: false });
+    kind = sameTrump && (bid.goingAlone || best.goingAlone) ? "alone" : "bid";
+    if (!agreed) cost = getBidCost(state, seat, bid, best);
+  } else if (!agreed && action.type !== "bid") {
+    cost = action.type === "discard" ? getDiscardCost(state, seat, action.card) : getPlayCost(state, action.card);
+  }
+
+  return {
+    seat,
+    kind,
+    trickIndex: action.type === "play" ? state.playedTricks.length : undefined,
+    chosen,
+    suggested,
+    agreed,
+    cost: Math.round(cost * 10) / 10,
+    reason: advice.reasons[0]?.summary ?? "",
+  };
+};
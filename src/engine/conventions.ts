@@ -0,0 +1,146 @@
+import { Card, Convention, GameState, Suit, TrickPlay } from "@/types/game";
+import { getBestPlay } from "@/engine/cardPlay";
+import { describeCard, getLegalPlays } from "@/utils/gameUtils";
+import {
+  getEffectiveSuit,
+  getHighestCard,
+  getLeftBowerSuit,
+  getLowestCard,
+  isRightBower,
+  isTrumpCard,
+} from "@/utils/cardRanking";
+import { getPartner, isMakerSide } from "@/engine/seating";
+import { getPlayableCards } from "@/engine/tableau";
+
+// Partner signalling conventions: leading and discarding habits that tell partner
+// something. The human's CPU partner follows the ones switched on, the coach
+// recommends them, and the learning panel reads partner's cards by them.
+
+export const CONVENTIONS: { id: Convention; name: string; description: string }[] = [
+  {
+    id: "trump-to-maker",
+    name: "Trump to a maker partner",
+    description: "When your partner names trump, your first lead is trump: the right bower if you hold it, otherwise your lowest trump.",
+  },
+  {
+    id: "lead-next",
+    name: "Lead next",
+    description: "When the other team names trump in round two, open with \"next\" - the suit the same colour as the turned-down card.",
+  },
+  {
+    id: "show-void",
+    name: "Show a void",
+    description: "When you can't follow and aren't trumping, throw off your only card of a suit so partner knows you can trump it.",
+  },
+];
+
+export type ConventionPlay = {
+  convention: Convention;
+  card: Card;
+  reason: string;
+};
+
+// The suit the same colour as the turned-down card, when it isn't trump
+const getNextSuit = (state: GameState): Suit | null => {
+  if (!state.turnedDown) return null;
+  const next = getLeftBowerSuit(state.turnedDown);
+  return next === state.trump ? null : next;
+};
+
+const hasLed = (tricks: TrickPlay[][], seat: number) => tricks.some(trick => trick[0]?.seat === seat);
+
+// The card a convention in use calls for from `seat` right now, if any
+export const getConventionPlay = (state: GameState, seat: number): ConventionPlay | null => {
+  const { trump, conventions } = state;
+  if (!trump || state.phase !== "playing") return null;
+
+  const hand = getPlayableCards(state.players[seat]);
+  const trick = state.trickCards.map(play => play.card);
+  const legal = getLegalPlays(hand, trick, trump);
+  if (legal.length <= 1) return null;
+
+  const partner = getPartner(state, seat);
+  const makers = isMakerSide(state, seat);
+
+  if (trick.length === 0) {
+    const trumpCards = hand.filter(c => isTrumpCard(c, trump));
+    if (conventions.includes("trump-to-maker") && state.trumpSelector === partner && !hasLed(state.playedTricks, seat) && trumpCards.length > 0) {
+      return {
+        convention: "trump-to-maker",
+        card: trumpCards.find(c => isRightBower(c, trump)) ?? getLowestCard(trumpCards, trump),
+        reason: "Your partner named trump, so lead trump to them - it helps pull the defenders' trump.",
+      };
+    }
+
+    const next = getNextSuit(state);
+    const nextCards = hand.filter(c => !isTrumpCard(c, trump) && c.suit === next);
+    if (conventions.includes("lead-next") && !makers && state.playedTricks.length === 0 && nextCards.length > 0) {
+      return {
+        convention: "lead-next",
+        card: getHighestCard(nextCards, trump),
+        reason: `The other team named trump in round two, so lead next - ${next}, the same colour as the turned-down ${state.turnedDown}.`,
+      };
+    }
+    return null;
+  }
+
+  if (conventions.includes("show-void")) {
+    const leadSuit = getEffectiveSuit(trick[0], trump);
+    if (legal.some(c => getEffectiveSuit(c, trump) === leadSuit)) return null;
+    // Only when throwing off anyway; trumping in wins the trick instead
+    const best = getBestPlay(state, seat);
+    if (isTrumpCard(best, trump)) return null;
+
+    const singletons = legal.filter(c =>
+      !isTrumpCard(c, trump) && c.rank !== "A" && hand.filter(o => !isTrumpCard(o, trump) && o.suit === c.suit).length === 1
+    );
+    if (singletons.length === 0) return null;
+    const card = singletons.some(c => c.id === best.id) ? best : getLowestCard(singletons, trump);
+    return {
+      convention: "show-void",
+      card,
+      reason: `Throw off your only ${card.suit} to show your partner you're out of them.`,
+    };
+  }
+  return null;
+};
+
+// What `seat`'s partner said with their most recent card this hand, or null when
+// it didn't say much
+export const explainPartnerPlay = (state: GameState, seat: number): string | null => {
+  const { trump, conventions } = state;
+  if (!trump) return null;
+
+  const partner = getPartner(state, seat);
+  if (partner === null) return null;
+  const tricks = [...state.playedTricks, state.trickCards];
+  const trickIndex = tricks.map(trick => trick.some(play => play.seat === partner)).lastIndexOf(true);
+  if (trickIndex === -1) return null;
+
+  const trick = tricks[trickIndex];
+  const position = trick.findIndex(play => play.seat === partner);
+  const card = trick[position].card;
+  const name = describeCard(card);
+
+  if (position === 0) {
+    const firstLead = !hasLed(tricks.slice(0, trickIndex), partner);
+    if (isTrumpCard(card, trump) && state.trumpSelector === seat && firstLead && conventions.includes("trump-to-maker")) {
+      return `Your partner led the ${name}: you named trump, so by your convention they lead trump to help you pull the defenders' trump.`;
+    }
+    const defending = !isMakerSide(state, seat);
+    if (card.suit === getNextSuit(state) && defending && trickIndex === 0 && conventions.includes("lead-next")) {
+      return `Your partner led next (${name}), the defence's opening lead by your convention when the other team names trump in round two.`;
+    }
+    if (isTrumpCard(card, trump)) return `Your partner led the ${name} to draw out trump.`;
+    if (card.rank === "A") return `Your partner cashed the ${name} while everyone could still follow.`;
+    return null;
+  }
+
+  const leadSuit = getEffectiveSuit(trick[0].card, trump);
+  if (getEffectiveSuit(card, trump) === leadSuit) return null;
+  if (isTrumpCard(card, trump)) return `Your partner trumped with the ${name}, so they're out of ${leadSuit}.`;
+  if (conventions.includes("show-void") && card.rank !== "A") {
+    return `Your partner threw off the ${name} on a ${leadSuit} lead. By your convention a throw-off is usually their last ${card.suit}, so they may be able to trump ${card.suit} - lead it when you can.`;
+  }
+  return `Your partner threw off the ${name}, so they're out of ${leadSuit}.`;
+};
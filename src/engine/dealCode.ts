@@ -0,0 +1,50 @@
+import { DealCode, DealRules } from "@/types/game";
+import { DECK_SIZE_OPTIONS, GAME_MODE_OPTIONS } from "@/engine/rules";
+
+// Shareable deal codes: the dealer's seat, one character for the rules the deal
+// depends on (mode, deck size and joker), then the hand's seed in base 36, shown
+// as three groups of three, e.g. "2A1-Z41-Z3K". Typing a code back in replays
+// exactly the same deal from the same dealer. Older eight-character codes
+// predate the rules character and always meant the standard partners deck.
+
+const SEED_LENGTH = 7;
+const LEGACY_RULES: DealRules = { mode: "partners", deckSize: 24, joker: false };
+
+const encodeRules = (rules: DealRules): string => {
+  const mode = GAME_MODE_OPTIONS.findIndex(option => option.mode === rules.mode);
+  const deck = DECK_SIZE_OPTIONS.findIndex(option => option.size === rules.deckSize);
+  return ((mode * DECK_SIZE_OPTIONS.length + deck) * 2 + (rules.joker ? 1 : 0)).toString(36).toUpperCase();
+};
+
+const decodeRules = (char: string): DealRules | null => {
+  const value = parseInt(char, 36);
+  const deck = DECK_SIZE_OPTIONS[Math.floor(value / 2) % DECK_SIZE_OPTIONS.length];
+  const mode = GAME_MODE_OPTIONS[Math.floor(value / 2 / DECK_SIZE_OPTIONS.length)];
+  if (!deck || !mode) return null;
+  return { mode: mode.mode, deckSize: deck.size, joker: value % 2 === 1 };
+};
+
+export const encodeDealCode = (seed: number, dealer: number, rules: DealRules): string => {
+  const raw = `${dealer}${encodeRules(rules)}${(seed >>> 0).toString(36).toUpperCase().padStart(SEED_LENGTH, "0")}`;
+  return `${raw.slice(0, 3)}-${raw.slice(3, 6)}-${raw.slice(6)}`;
+};
+
+export const parseDealCode = (code: string): DealCode | null => {
+  const raw = code.replace(/[\s-]/g, "").toUpperCase();
+  const legacy = /^[0-3][0-9A-Z]{7}$/.test(raw);
+  if (!legacy && !/^[0-3][0-9A-Z]{8}$/.test(raw)) return null;
+
+  const rules = legacy ? LEGACY_RULES : decodeRules(raw[1]);
+  const seed = parseInt(raw.slice(raw.length - SEED_LENGTH), 36);
+  if (!rules || !Number.isSafeInteger(seed) || seed > 0xffffffff) return null;
+
+  return { seed, dealer: Number(raw[0]), rules };
+};
+
+// Does a code's deal come out the same under `rules`?
+export const dealRulesMatch = (code: DealCode, rules: DealRules): boolean =>
+  code.rules.mode === rules.mode && code.rules.deckSize === rules.deckSize && code.rules.joker === rules.joker;
+
+// e.g. "a 28-card cutthroat game with the joker"
+export const describeDealRules = (rules: DealRules): string =>
+  `a ${rules.deckSize}-card ${rules.mode} game${rules.joker ? " with the joker" : ""}`;
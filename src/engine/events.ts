@@ -0,0 +1,14 @@
+// Things that happened while applying an action, for the UI to announce.
+// The engine only reports them; GameContext decides how to show them.
+export type GameEvent =
+  | { type: "DEAL_FAILED"; reason: string }
+  | { type: "GOING_ALONE"; seat: number }
+  | { type: "DEALER_STUCK"; seat: number }
+  | { type: "JOKER_TURNED_UP"; dealer: number }
+  | { type: "HAND_THROWN_IN"; dealer: number }
+  | { type: "DEFENDING_ALONE"; seat: number }
+  | { type: "FARMERS_HAND"; seat: number }
+  | { type: "TRICK_WON"; seat: number }
+  // Several teams passed the target on the same hand with equal scores, so the game plays on
+  | { type: "GAME_TIED"; teams: number[]; score: number }
+  | { type: "HAND_SCORED"; teams: number[]; points: number; euchred: boolean };
@@ -0,0 +1,296 @@
+import { Card, GameState, Suit, TrickPlay } from "@/types/game";
+import type { GameAction } from "@/reducers/gameReducer";
+import { GameEvent } from "@/engine/events";
+import { Rng } from "@/engine/rng";
+import { BidDecision } from "@/engine/bidding";
+import { canGoAlone, getDealLayout, mustDealerCall } from "@/engine/rules";
+import { createDeck, getLegalPlays, shuffleDeck, SUITS } from "@/utils/gameUtils";
+import { getEffectiveSuit } from "@/utils/cardRanking";
+import { getTeam, onSameSide } from "@/engine/seating";
+import { getFaceUpCards, getPlayableCards } from "@/engine/tableau";
+
+// Monte Carlo search over hidden hands. Each sample deals the unseen cards to the
+// other seats, consistent with the voids they have shown, then plays the hand out
+// with the "advanced" heuristic bots. The option with the best average points wins.
+// The sample budget is fixed, never timed, so a seed always gives the same choice.
+
+export type Simulator = (state: GameState, action: GameAction) => { state: GameState; events: GameEvent[] };
+
+export type MonteCarloOptions = {
+  // Sampled deals per option considered
+  samples: number;
+};
+
+export const DEFAULT_MONTE_CARLO_OPTIONS: MonteCarloOptions = {
+  samples: 40,
+};
+
+// Settings for the learning-mode strength meter, which runs while the player waits
+export const STRENGTH_METER_OPTIONS: MonteCarloOptions = {
+  samples: 60,
+};
+
+type PlayoutResult = {
+  // Points for `seat`'s team: negative when only others score
+  points: number;
+  // Tricks taken by `seat`'s side
+  tricks: number;
+  euchred: boolean;
+};
+
+export type BidEstimate = {
+  // Average tricks for the bidder's team
+  tricks: number;
+  // Share of deals where the makers are euchred, or take all five tricks
+  euchreChance: number;
+  marchChance: number;
+  points: number;
+};
+
+export type TrumpEstimate = {
+  suit: Suit;
+  partnered: BidEstimate;
+  alone: BidEstimate;
+};
+
+// Longest a simulated hand can run before it is abandoned
+const MAX_PLAYOUT_STEPS = 200;
+const MAX_SAMPLE_ATTEMPTS = 50;
+
+export const getPlayedCards = (state: GameState): Card[] =>
+  [...state.playedTricks.flat(), ...state.trickCards].map(play => play.card);
+
+// Suits each seat has shown out of by failing to follow
+export const getKnownVoids = (state: GameState): Suit[][] => {
+  const voids: Suit[][] = state.players.map(() => []);
+  if (!state.trump) return voids;
+
+  const tricks: TrickPlay[][] = [...state.playedTricks, state.trickCards];
+  tricks.forEach(trick => {
+    if (trick.length === 0) return;
+    const leadSuit = getEffectiveSuit(trick[0].card, state.trump);
+    trick.slice(1).forEach(({ seat, card }) => {
+      if (getEffectiveSuit(card, state.trump) !== leadSuit && !voids[seat].includes(leadSuit)) {
+        voids[seat].push(leadSuit);
+      }
+    });
+  });
+  return voids;
+};
+
+// Cards `seat` can't see: not in its hand, not played, not face up in a tableau and not the turn-up
+export const getUnseenCards = (state: GameState, seat: number): Card[] => {
+  const known = new Set([
+    ...state.players[seat].hand.map(c => c.id),
+    ...state.players.flatMap(getFaceUpCards).map(c => c.id),
+    ...getPlayedCards(state).map(c => c.id),
+  ]);
+  if (state.turnUp) known.add(state.turnUp.id);
+  // The dealer remembers their own discard, the last card put into the kitty; the rest of the kitty stays unseen
+  const pickedUp = state.turnUp && !state.turnedDown && !state.players[state.dealer].sittingOut;
+  if (seat === state.dealer && pickedUp && state.phase === "playing") {
+    known.add(state.deck[state.deck.length - 1].id);
+  }
+  return createDeck(state.rules).filter(c => !known.has(c.id));
+};
+
+// The turn-up is public: it sits in the dealer's hand once picked up, otherwise in the kitty
+const turnUpHolder = (state: GameState, seat: number): number | null => {
+  const { turnUp } = state;
+  if (!turnUp || state.turnedDown || !state.trump) return null;
+  if (seat === state.dealer || state.players[state.dealer].sittingOut) return null;
+  if (getPlayedCards(state).some(c => c.id === turnUp.id)) return null;
+  return state.dealer;
+};
+
+// One full deal consistent with everything `seat` has seen
+export const sampleDeal = (state: GameState, seat: number, rng: Rng): GameState => {
+  const voids = getKnownVoids(state);
+  const holder = turnUpHolder(state, seat);
+  const unseen = getUnseenCards(state, seat);
+  const others = state.players
+    .map((_, i) => i)
+    .filter(i => i !== seat && !state.players[i].sittingOut)
+    // Seats with more known voids are the hardest to fill, so deal to them first
+    .sort((a, b) => voids[b].length - voids[a].length);
+
+  const fits = (card: Card, other: number, ignoreVoids: boolean) =>
+    ignoreVoids || !state.trump || !voids[other].includes(getEffectiveSuit(card, state.trump));
+
+  // Deal the unseen cards once, or null when the voids can't all be honoured
+  const deal = (ignoreVoids: boolean): GameState | null => {
+    let pool = shuffleDeck(unseen, rng.next);
+    const hands: Card[][] = state.players.map(p => p.hand);
+
+    for (const other of others) {
+      const size = state.players[other].hand.length;
+      const hand: Card[] = other === holder ? [state.turnUp] : [];
+      const picked = pool.filter(c => fits(c, other, ignoreVoids)).slice(0, size - hand.length);
+      if (!ignoreVoids && hand.length + picked.length < size) return null;
+      hands[other] = [...hand, ...picked];
+      pool = pool.filter(c => !picked.includes(c));
+    }
+
+    // Nobody has seen a face-down tableau card, its owner included
+    const players = state.players.map((p, i) => ({
+      ...p,
+      hand: hands[i],
+      tableau: p.tableau?.map(pile => (pile.faceDown ? { ...pile, faceDown: pool.pop() ?? pile.faceDown } : pile)),
+    }));
+    // The kitty keeps its layout: the turn-up stays on top (a farmer's hand swaps the cards under it)
+    // and a known discard stays put, while every unseen kitty card is replaced by a sampled one
+    const unseenIds = new Set(unseen.map(c => c.id));
+    const deck = state.deck.map(c => (unseenIds.has(c.id) ? pool.pop() : c));
+    return { ...state, deck, players };
+  };
+
+  for (let attempt = 0; attempt < MAX_SAMPLE_ATTEMPTS; attempt++) {
+    const sample = deal(false);
+    if (sample) return sample;
+  }
+  // Never fall back on the real hidden hands: a sample that ignores voids is still a guess
+  return deal(true);
+};
+
+// Play a sampled deal to the end of the hand
+const playOut = (state: GameState, seat: number, first: GameAction, simulate: Simulator): PlayoutResult => {
+  let current: GameState = {
+    ...state,
+    players: state.players.map(p => ({ ...p, isCPU: true, botLevel: "advanced" })),
+  };
+  let action = first;
+  let tricks = 0;
+  const team = getTeam(state.rules, seat);
+
+  for (let step = 0; step < MAX_PLAYOUT_STEPS; step++) {
+    const { state: next, events } = simulate(current, action);
+    events.forEach(e => {
+      if (e.type === "TRICK_WON" && onSameSide(next, e.seat, seat)) tricks++;
+    });
+    const scored = events.find(e => e.type === "HAND_SCORED");
+    if (scored && scored.type === "HAND_SCORED") {
+      return { points: scored.teams.includes(team) ? scored.points : -scored.points, tricks, euchred: scored.euchred };
+    }
+    if (next === current) break;
+    current = next;
+    action = current.shouldClearTrick ? { type: "CLEAR_TRICK" } : { type: "CPU_PLAY" };
+  }
+  return { points: 0, tricks, euchred: false };
+};
+
+// Playout results of each action over sampled deals, sharing the deals between options
+const sampleOptions = (
+  state: GameState,
+  seat: number,
+  options: GameAction[],
+  rng: Rng,
+  simulate: Simulator,
+  settings: MonteCarloOptions
+): PlayoutResult[][] => {
+  const results: PlayoutResult[][] = options.map(() => []);
+
+  for (let sample = 0; sample < settings.samples; sample++) {
+    const deal = sampleDeal(state, seat, rng);
+    options.forEach((option, i) => {
+      results[i].push(playOut(deal, seat, option, simulate));
+    });
+  }
+  return results;
+};
+
+// Average result of each action over sampled deals
+const evaluateOptions = (
+  state: GameState,
+  seat: number,
+  options: GameAction[],
+  rng: Rng,
+  simulate: Simulator,
+  settings: MonteCarloOptions
+): number[] =>
+  sampleOptions(state, seat, options, rng, simulate, settings).map(results =>
+    results.reduce((total, r) => total + r.points, 0) / Math.max(results.length, 1)
+  );
+
+const summarizeBid = (results: PlayoutResult[], tricksPerHand: number): BidEstimate => {
+  const count = Math.max(results.length, 1);
+  const share = (test: (r: PlayoutResult) => boolean) => results.filter(test).length / count;
+  return {
+    tricks: results.reduce((total, r) => total + r.tricks, 0) / count,
+    euchreChance: share(r => r.euchred),
+    marchChance: share(r => r.tricks === tricksPerHand),
+    points: results.reduce((total, r) => total + r.points, 0) / count,
+  };
+};
+
+export const chooseMonteCarloPlay = (
+  state: GameState,
+  seat: number,
+  rng: Rng,
+  simulate: Simulator,
+  settings: MonteCarloOptions = DEFAULT_MONTE_CARLO_OPTIONS
+): Card => {
+  const hand = getPlayableCards(state.players[seat]);
+  const trick = state.trickCards.map(play => play.card);
+  const legal = getLegalPlays(hand, trick, state.trump);
+  if (legal.length <= 1) return legal[0];
+
+  const scores = evaluateOptions(
+    state,
+    seat,
+    legal.map(card => ({ type: "PLAY_CARD", card })),
+    rng,
+    simulate,
+    settings
+  );
+  return legal[scores.indexOf(Math.max(...scores))];
+};
+
+export const chooseMonteCarloBid = (
+  state: GameState,
+  seat: number,
+  rng: Rng,
+  simulate: Simulator,
+  settings: MonteCarloOptions = DEFAULT_MONTE_CARLO_OPTIONS
+): BidDecision => {
+  const options: BidDecision[] = mustDealerCall(state, seat) ? [] : [{ action: "pass" }];
+  const aloneChoices = canGoAlone(state, seat) ? [false, true] : [false];
+
+  if (state.phase === "bidding") {
+    aloneChoices.forEach(goingAlone => options.push({ action: "order-up", goingAlone }));
+  } else {
+    SUITS.filter(suit => suit !== state.turnedDown).forEach(suit => {
+      aloneChoices.forEach(goingAlone => options.push({ action: "call", suit, goingAlone }));
+    });
+  }
+
+  const actions: GameAction[] = options.map(option =>
+    option.action === "pass" ? { type: "PASS" }
+      : option.action === "order-up" ? { type: "ORDER_UP", goingAlone: option.goingAlone }
+      : { type: "SET_TRUMP", suit: option.suit, goingAlone: option.goingAlone }
+  );
+
+  const scores = evaluateOptions(state, seat, actions, rng, simulate, settings);
+  return options[scores.indexOf(Math.max(...scores))];
+};
+
+// How `seat` would fare making each trump it can name now, with and without its partner
+export const estimateTrumpOptions = (
+  state: GameState,
+  seat: number,
+  rng: Rng,
+  simulate: Simulator,
+  settings: MonteCarloOptions = STRENGTH_METER_OPTIONS
+): TrumpEstimate[] => {
+  const suits = state.phase === "bidding" ? [state.turnUp.suit] : SUITS.filter(suit => suit !== state.turnedDown);
+  const actions: GameAction[] = suits.flatMap(suit => [false, true].map(goingAlone =>
+    state.phase === "bidding" ? { type: "ORDER_UP", goingAlone } : { type: "SET_TRUMP", suit, goingAlone }
+  ));
+
+  const results = sampleOptions(state, seat, actions, rng, simulate, settings);
+  const { tricks } = getDealLayout(state.rules);
+  return suits.map((suit, i) => ({
+    suit,
+    partnered: summarizeBid(results[i * 2], tricks),
+    alone: summarizeBid(results[i * 2 + 1], tricks),
+  }));
+};
@@ -0,0 +1,230 @@
+import { Card, GameState, Suit, TrickPlay } from "@/types/game";
+import { initialState } from "@/reducers/gameReducer";
+import { createDeck, determineWinner, getLegalPlays, isValidPlay, parseCardCode, SUITS } from "@/utils/gameUtils";
+import { getEffectiveSuit } from "@/utils/cardRanking";
+import { emptyTeamCounts, getTeam } from "@/engine/seating";
+
+// "Find the winning play" puzzles. A puzzle file is JSON in the format described
+// in the README ("Puzzle format"); every puzzle is replayed against the rules before
+// it is shown, so a typo in a file turns into an error message, not a broken board.
+
+// A card played by a seat, as [seat, card code]
+export type PuzzlePlay = [number, string];
+
+export type Puzzle = {
+  id: string;
+  title: string;
+  trump: Suit;
+  dealer: number;
+  // Seat that named trump
+  maker: number;
+  goingAlone?: boolean;
+  // Finished tricks this hand, oldest first
+  played?: PuzzlePlay[][];
+  // The trick in progress; you (seat 0) play next
+  trick?: PuzzlePlay[];
+  hand: string[];
+  // Other seats' cards, when the puzzle depends on them (keys "1", "2", "3")
+  hands?: Record<string, string[]>;
+  answer: string;
+  explanation: string;
+};
+
+export type PuzzleFile = {
+  version: 1;
+  puzzles: Puzzle[];
+};
+
+const TRICKS_PER_HAND = 5;
+
+const isSeat = (value: unknown): value is number =>
+  typeof value === "number" && Number.isInteger(value) && value >= 0 && value < 4;
+
+const isCodeList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(code => typeof code === "string");
+
+const isPlayList = (value: unknown): value is PuzzlePlay[] =>
+  Array.isArray(value) && value.every(play => Array.isArray(play) && play.length === 2 && isSeat(play[0]) && typeof play[1] === "string");
+
+const isSeatHands = (value: unknown): value is Record<string, string[]> =>
+  typeof value === "object" && value !== null && !Array.isArray(value) &&
+  Object.entries(value).every(([seat, cards]) => ["1", "2", "3"].includes(seat) && isCodeList(cards));
+
+// Everything wrong with a puzzle, or an empty list when it can be played
+export const validatePuzzle = (puzzle: Puzzle): string[] => {
+  const errors: string[] = [];
+  const { trump, dealer, maker } = puzzle;
+
+  if (typeof puzzle.id !== "string" || !puzzle.id) errors.push("missing id");
+  if (typeof puzzle.title !== "string") errors.push("missing title");
+  if (typeof puzzle.explanation !== "string") errors.push("missing explanation");
+  if (!SUITS.includes(trump)) errors.push(`unknown trump "${trump}"`);
+  if (!isSeat(dealer)) errors.push("dealer must be a seat from 0 to 3");
+  if (!isSeat(maker)) errors.push("maker must be a seat from 0 to 3");
+  if (!isCodeList(puzzle.hand)) errors.push("hand must be a list of card codes");
+  if (typeof puzzle.answer !== "string") errors.push("missing answer");
+  if (puzzle.played !== undefined && !(Array.isArray(puzzle.played) && puzzle.played.every(isPlayList))) {
+    errors.push("played must be a list of tricks of [seat, card] pairs");
+  }
+  if (puzzle.trick !== undefined && !isPlayList(puzzle.trick)) errors.push("trick must be a list of [seat, card] pairs");
+  if (puzzle.hands !== undefined && !isSeatHands(puzzle.hands)) {
+    errors.push("hands must map seats \"1\" to \"3\" to lists of card codes");
+  }
+  if (errors.length > 0) return errors;
+
+  // Every card code must be real and appear only once
+  const codes = [
+    ...puzzle.hand,
+    ...Object.values(puzzle.hands ?? {}).flat(),
+    ...(puzzle.played ?? []).flat().map(([, code]) => code),
+    ...(puzzle.trick ?? []).map(([, code]) => code),
+  ];
+  codes.filter(code => !parseCardCode(code)).forEach(code => errors.push(`"${code}" is not a card`));
+  // Puzzles are played with the standard deck, so no 7s or 8s
+  const deck = new Set(createDeck().map(c => c.id));
+  codes.filter(code => parseCardCode(code) && !deck.has(parseCardCode(code).id))
+    .forEach(code => errors.push(`"${code}" is not in the 24-card deck`));
+  const ids = codes.map(code => parseCardCode(code)?.id).filter(Boolean);
+  const duplicates = ids.filter((id, i) => ids.indexOf(id) !== i);
+  duplicates.forEach(id => errors.push(`${id} appears more than once`));
+  if (errors.length > 0) return errors;
+
+  const toPlays = (plays: PuzzlePlay[]): TrickPlay[] => plays.map(([seat, code]) => ({ seat, card: parseCardCode(code) }));
+  const played = (puzzle.played ?? []).map(toPlays);
+  const trick = toPlays(puzzle.trick ?? []);
+  const sittingOut = puzzle.goingAlone ? (maker + 2) % 4 : -1;
+  const activeCount = sittingOut === -1 ? 4 : 3;
+  const nextActive = (seat: number) => ((seat + 1) % 4 === sittingOut ? (seat + 2) % 4 : (seat + 1) % 4);
+
+  if (sittingOut === 0) errors.push("you can't be the partner sitting out of a lone hand");
+  if (played.length >= TRICKS_PER_HAND) errors.push("at least one trick must be left to play");
+  if (played.some(t => t.length !== activeCount)) errors.push(`each finished trick needs ${activeCount} cards`);
+  if (trick.length >= activeCount) errors.push("the current trick is already complete");
+  if (errors.length > 0) return errors;
+
+  // Seats must play in turn, with each trick led by the winner of the one before
+  let leader = nextActive(dealer);
+  [...played, trick].forEach((plays, trickIndex) => {
+    let seat = leader;
+    plays.forEach(play => {
+      if (play.seat !== seat) errors.push(`trick ${trickIndex + 1}: expected ${seat} to play, not ${play.seat}`);
+      seat = nextActive(seat);
+    });
+    if (trickIndex === played.length && seat !== 0) errors.push("it must be seat 0's turn to play");
+    if (plays.length === activeCount) leader = plays[determineWinner(plays.map(p => p.card), trump)].seat;
+  });
+
+  // Hand sizes follow from the number of tricks played
+  const cardsLeft = TRICKS_PER_HAND - played.length;
+  const hands: Record<number, Card[]> = { 0: puzzle.hand.map(code => parseCardCode(code)) };
+  Object.entries(puzzle.hands ?? {}).forEach(([seat, cards]) => {
+    hands[Number(seat)] = cards.map(code => parseCardCode(code));
+  });
+  if (hands[0].length !== cardsLeft) errors.push(`your hand should have ${cardsLeft} cards`);
+  Object.entries(hands).forEach(([key, cards]) => {
+    const seat = Number(key);
+    const expected = seat === sittingOut ? TRICKS_PER_HAND : cardsLeft - (trick.some(p => p.seat === seat) ? 1 : 0);
+    if (seat !== 0 && cards.length !== expected) errors.push(`seat ${seat} should hold ${expected} cards`);
+  });
+  if (errors.length > 0) return errors;
+
+  // Replay each play: with a known hand it must be legal, and nobody may follow a suit they showed out of
+  const voids: Suit[][] = [[], [], [], []];
+  [...played, trick].forEach((plays, trickIndex) => {
+    const leadSuit = plays.length > 0 ? getEffectiveSuit(plays[0].card, trump) : null;
+    plays.forEach((play, i) => {
+      const suit = getEffectiveSuit(play.card, trump);
+      if (voids[play.seat].includes(suit)) {
+        errors.push(`trick ${trickIndex + 1}: seat ${play.seat} plays ${suit} after showing out of it`);
+      }
+      const known = hands[play.seat];
+      if (known) {
+        const later = [...played, trick].slice(trickIndex).flat().filter(p => p.seat === play.seat).map(p => p.card);
+        const held = [...known, ...later];
+        if (!isValidPlay(play.card, held, plays.slice(0, i).map(p => p.card), trump)) {
+          errors.push(`trick ${trickIndex + 1}: seat ${play.seat} must follow suit`);
+        }
+      }
+      if (i > 0 && suit !== leadSuit && !voids[play.seat].includes(leadSuit)) voids[play.seat].push(leadSuit);
+    });
+  });
+
+  const answer = parseCardCode(puzzle.answer);
+  const currentTrick = trick.map(p => p.card);
+  const legal = getLegalPlays(hands[0], currentTrick, trump);
+  if (!answer || !hands[0].some(c => c.id === answer.id)) {
+    errors.push("the answer must be a card in your hand");
+  } else if (!legal.some(c => c.id === answer.id)) {
+    errors.push("the answer isn't a legal play");
+  }
+  if (legal.length < 2) errors.push("you need at least two legal cards to choose from");
+  return errors;
+};
+
+// Puzzles from a JSON file, keeping the ones that pass validation
+export const parsePuzzleFile = (json: string): { puzzles: Puzzle[]; errors: string[] } => {
+  let data: Partial<PuzzleFile>;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    return { puzzles: [], errors: ["The file isn't valid JSON"] };
+  }
+  if (data?.version !== 1 || !Array.isArray(data.puzzles)) {
+    return { puzzles: [], errors: ["Expected { \"version\": 1, \"puzzles\": [...] }"] };
+  }
+
+  const puzzles: Puzzle[] = [];
+  const errors: string[] = [];
+  data.puzzles.forEach((puzzle, i) => {
+    const problems = puzzle && typeof puzzle === "object" ? validatePuzzle(puzzle) : ["not an object"];
+    if (problems.length > 0) {
+      errors.push(...problems.map(problem => `Puzzle ${puzzle?.id ?? i + 1}: ${problem}`));
+    } else {
+      puzzles.push(puzzle);
+    }
+  });
+  return { puzzles, errors };
+};
+
+// The engine state for a valid puzzle, with seat 0 to play; unknown hands get filler cards
+export const buildPuzzlePosition = (puzzle: Puzzle): GameState => {
+  const toPlays = (plays: PuzzlePlay[]): TrickPlay[] => plays.map(([seat, code]) => ({ seat, card: parseCardCode(code) }));
+  const playedTricks = (puzzle.played ?? []).map(toPlays);
+  const trickCards = toPlays(puzzle.trick ?? []);
+  const sittingOut = puzzle.goingAlone ? (puzzle.maker + 2) % 4 : -1;
+  const given: Record<number, Card[]> = { 0: puzzle.hand.map(code => parseCardCode(code)) };
+  Object.entries(puzzle.hands ?? {}).forEach(([seat, cards]) => {
+    given[Number(seat)] = cards.map(code => parseCardCode(code));
+  });
+
+  const seen = new Set([...Object.values(given).flat(), ...playedTricks.flat().map(p => p.card), ...trickCards.map(p => p.card)].map(c => c.id));
+  let filler = createDeck().filter(c => !seen.has(c.id));
+  const cardsLeft = TRICKS_PER_HAND - playedTricks.length;
+  const hands = [0, 1, 2, 3].map(seat => {
+    if (given[seat]) return given[seat];
+    const size = seat === sittingOut ? TRICKS_PER_HAND : cardsLeft - (trickCards.some(p => p.seat === seat) ? 1 : 0);
+    const cards = filler.slice(0, size);
+    filler = filler.slice(size);
+    return cards;
+  });
+
+  const tricksWon = emptyTeamCounts(initialState.rules);
+  playedTricks.forEach(plays => {
+    tricksWon[getTeam(initialState.rules, plays[determineWinner(plays.map(p => p.card), puzzle.trump)].seat)]++;
+  });
+
+  return {
+    ...initialState,
+    players: initialState.players.map((p, seat) => ({ ...p, hand: hands[seat], sittingOut: seat === sittingOut })),
+    deck: filler,
+    dealer: puzzle.dealer,
+    trump: puzzle.trump,
+    trumpSelector: puzzle.maker,
+    goingAlone: puzzle.goingAlone ?? false,
+    playedTricks,
+    trickCards,
+    tricksWon,
+    currentPlayer: 0,
+    phase: "playing",
+  };
+};
@@ -0,0 +1,94 @@
+import { CoachMark, GameState } from "@/types/game";
+import { getTeam } from "@/engine/seating";
+
+// End-of-game learning report: how the human's decisions compared with the
+// coach, by kind of decision, plus a short history of past games for trends.
+
+export type DecisionKind = CoachMark["kind"];
+
+export type Grade = "best" | "fine" | "mistake";
+
+export type CategoryStats = {
+  decisions: number;
+  // Decisions that matched the coach or gave nothing up
+  good: number;
+  mistakes: number;
+  // Total tricks given up (see CoachMark.cost)
+  cost: number;
+};
+
+export type GameReport = {
+  id: string;
+  finishedAt: string;
+  won: boolean;
+  categories: Record<DecisionKind, CategoryStats>;
+};
+
+// A mark with the hand it came from (0-based)
+export type GradedMark = CoachMark & { handIndex: number };
+
+export const DECISION_KINDS: DecisionKind[] = ["bid", "alone", "discard", "lead", "follow"];
+
+export const DECISION_LABELS: Record<DecisionKind, string> = {
+  bid: "Bidding",
+  alone: "Going alone",
+  discard: "Discards",
+  lead: "Leads",
+  follow: "Following",
+};
+
+// Past game reports kept for the trend
+export const MAX_SAVED_REPORTS = 20;
+
+// A different card that comes to the same result is fine, one that gives up tricks is not
+export const getGrade = (mark: CoachMark): Grade => {
+  if (mark.agreed) return "best";
+  return mark.cost > 0 ? "mistake" : "fine";
+};
+
+export const getGameMarks = (state: GameState, seat: number): GradedMark[] =>
+  state.handHistory.flatMap((hand, handIndex) =>
+    hand.marks.filter(mark => mark.seat === seat).map(mark => ({ ...mark, handIndex }))
+  );
+
+export const summarize = (marks: CoachMark[]): Record<DecisionKind, CategoryStats> => {
+  const categories = Object.fromEntries(
+    DECISION_KINDS.map(kind => [kind, { decisions: 0, good: 0, mistakes: 0, cost: 0 }])
+  ) as Record<DecisionKind, CategoryStats>;
+
+  marks.forEach(mark => {
+    const stats = categories[mark.kind];
+    stats.decisions++;
+    if (getGrade(mark) === "mistake") {
+      stats.mistakes++;
+    } else {
+      stats.good++;
+    }
+    stats.cost += mark.cost;
+  });
+  return categories;
+};
+
+// Share of decisions that weren't mistakes, or null with nothing to grade
+export const getAccuracy = (stats: CategoryStats[]): number | null => {
+  const decisions = stats.reduce((total, s) => total + s.decisions, 0);
+  if (decisions === 0) return null;
+  return stats.reduce((total, s) => total + s.good, 0) / decisions;
+};
+
+export const getCostliestMistakes = (marks: GradedMark[], count: number): GradedMark[] =>
+  marks
+    .filter(mark => getGrade(mark) === "mistake")
+    .sort((a, b) => b.cost - a.cost)
+    .slice(0, count);
+
+export const buildGameReport = (state: GameState, seat: number): GameReport => {
+  const first = state.handHistory[0];
+  return {
+    // The first hand's seed and the game length tell games apart well enough to avoid saving one twice
+    id: `${first?.handSeed ?? 0}-${state.handHistory.length}`,
+    finishedAt: new Date().toISOString(),
+    won: state.winner === getTeam(state.rules, seat),
+    categories: summarize(getGameMarks(state, seat)),
+  };
+};
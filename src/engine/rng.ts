@@ -0,0 +1,32 @@
+// Seedable pseudo-random numbers (mulberry32). The generator's whole state is a
+// single 32-bit integer, so it can live in GameState and be saved with the game.
+
+export type Rng = {
+  // Float in [0, 1), like Math.random
+  next: () => number;
+  // Integer in [0, max)
+  int: (max: number) => number;
+  // State to store so the sequence can be resumed later
+  getState: () => number;
+};
+
+export const createRng = (seed: number): Rng => {
+  let state = seed >>> 0;
+
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  return {
+    next,
+    int: (max: number) => Math.floor(next() * max),
+    getState: () => state,
+  };
+};
+
+// Fresh seed for starting a game from the UI. The engine itself never calls this.
+export const randomSeed = (): number => Math.floor(Math.random() * 4294967296) >>> 0;
@@ -0,0 +1,127 @@
+import { Card, DeckSize, GameMode, GameState, HandRecord, RuleSet } from "@/types/game";
+import { isJoker, RANKS } from "@/utils/cardRanking";
+import { getSeats, isSeated } from "@/engine/seating";
+
+// House rules. A game's RuleSet is picked on the pre-game screen and saved with
+// it; the reducer, bots and coach ask these helpers instead of assuming one table.
+
+export const DEFAULT_RULES: RuleSet = {
+  mode: "partners",
+  stickTheDealer: true,
+  farmersHand: false,
+  defendAlone: false,
+  canadianLoner: false,
+  pointsToWin: 10,
+  joker: false,
+  deckSize: 24,
+};
+
+export const GAME_MODE_OPTIONS: { mode: GameMode; name: string; description: string }[] = [
+  { mode: "partners", name: "Partners (4 players)", description: "Two teams of two, partners sitting across from each other." },
+  { mode: "cutthroat", name: "Cutthroat (3 players)", description: "Everyone scores alone; the maker plays against the other two." },
+  { mode: "two-handed", name: "Two-handed (2 players)", description: "Heads-up against one CPU, each with a tableau of face-down and face-up cards." },
+];
+
+export const POINTS_TO_WIN_OPTIONS = [5, 7, 10, 11, 15];
+
+export const DECK_SIZE_OPTIONS: { size: DeckSize; name: string }[] = [
+  { size: 24, name: "24 cards (9s up)" },
+  { size: 28, name: "28 cards (8s up)" },
+  { size: 32, name: "32 cards (7s up)" },
+];
+
+type RuleToggle = Exclude<keyof RuleSet, "mode" | "pointsToWin" | "deckSize">;
+
+export const RULE_TOGGLES: { key: RuleToggle; name: string; description: string }[] = [
+  {
+    key: "stickTheDealer",
+    name: "Stick the dealer",
+    description: "If everyone passes twice the dealer must name trump. Off: the hand is thrown in and the next player deals.",
+  },
+  {
+    key: "farmersHand",
+    name: "Farmer's hand",
+    description: "A player dealt no face cards may swap three cards for the kitty before bidding.",
+  },
+  {
+    key: "defendAlone",
+    name: "Defend alone",
+    description: "A defender may play alone against a lone maker; euchring them scores 4.",
+  },
+  {
+    key: "canadianLoner",
+    name: "Canadian loner",
+    description: "Only the dealer may go alone on the turned-up card; whoever orders it up plays with their partner.",
+  },
+  {
+    key: "joker",
+    name: "Joker (Benny)",
+    description: "Adds a joker as the highest trump, above the right bower. If it's turned up, the dealer names trump.",
+  },
+];
+
+// Every deck deals five cards to each seated player; what's left over is the kitty.
+// Two-handed deals a four-card hand and four tableau piles of two instead.
+const HAND_SIZE = 5;
+const TWO_HANDED_HAND_SIZE = 4;
+const TWO_HANDED_PILES = 4;
+
+export type DealLayout = {
+  cards: number;
+  handSize: number;
+  // Tableau piles per seat (see engine/tableau)
+  tableauPiles: number;
+  kittySize: number;
+  tricks: number;
+};
+
+export const getDealLayout = (rules: RuleSet): DealLayout => {
+  const cards = rules.deckSize + (rules.joker ? 1 : 0);
+  const twoHanded = rules.mode === "two-handed";
+  const handSize = twoHanded ? TWO_HANDED_HAND_SIZE : HAND_SIZE;
+  const tableauPiles = twoHanded ? TWO_HANDED_PILES : 0;
+  const perSeat = handSize + tableauPiles * 2;
+  return { cards, handSize, tableauPiles, kittySize: cards - perSeat * getSeats(rules).length, tricks: perSeat };
+};
+
+// The makers need a majority of the hand's tricks: three of five, seven of twelve
+export const getTricksToMake = (rules: RuleSet): number => Math.floor(getDealLayout(rules).tricks / 2) + 1;
+
+// A turned-up joker skips the first round: the dealer names any suit and picks it up
+export const isJokerTurnUp = (state: GameState): boolean =>
+  state.phase === "calling" && !state.turnedDown && !!state.turnUp && isJoker(state.turnUp);
+
+// The dealer has to name trump once the second round comes back around, or straight away on a joker
+export const mustDealerCall = (state: GameState, seat: number): boolean =>
+  state.phase === "calling" && seat === state.dealer && (state.rules.stickTheDealer || isJokerTurnUp(state));
+
+// Without partners the maker already plays alone
+export const canGoAlone = (state: GameState, seat: number): boolean =>
+  state.rules.mode === "partners" &&
+  !(state.rules.canadianLoner && state.phase === "bidding" && seat !== state.dealer);
+
+// The joker is no farmer's card either
+const FACE_RANKS = ["J", "Q", "K", "Joker"];
+
+export const isFarmersHand = (hand: Card[]): boolean => hand.every(c => !FACE_RANKS.includes(c.rank));
+
+// A farmer's hand may be swapped once, before its owner's first bid
+export const canSwapFarmersHand = (state: GameState, seat: number): boolean =>
+  state.rules.farmersHand &&
+  state.phase === "bidding" &&
+  state.currentPlayer === seat &&
+  !state.farmersSwap &&
+  !state.bids.some(bid => bid.seat === seat) &&
+  isFarmersHand(state.players[seat].hand);
+
+// The three cards a farmer's hand trades away: its lowest
+export const getFarmersSwapCards = (hand: Card[]): Card[] =>
+  [...hand].sort((a, b) => RANKS.indexOf(a.rank) - RANKS.indexOf(b.rank)).slice(0, 3);
+
+// Seats that didn't play a finished hand: a lone maker's partner, a lone defender's
+// and the empty seat in cutthroat
+export const getSatOutSeats = (record: HandRecord, rules: RuleSet): number[] => [
+  ...[0, 1, 2, 3].filter(seat => !isSeated(rules, seat)),
+  ...(record.goingAlone ? [(record.trumpSelector + 2) % 4] : []),
+  ...(record.loneDefender !== undefined ? [(record.loneDefender + 2) % 4] : []),
+];
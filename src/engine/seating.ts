@@ -0,0 +1,61 @@
+import { GameMode, GameState, Player, RuleSet } from "@/types/game";
+
+// Who plays with whom. Partners is the usual game: two fixed teams sitting across
+// from each other. Cutthroat leaves the seat across from you empty; the other three
+// each score alone, and whoever makes trump plays against the other two together.
+// Two-handed is you against the player across the table.
+// Seats keep their places at the four-seat table in every mode, so a seat still
+// indexes `players`, and the engine asks these helpers instead of doing `% 2` team math.
+
+const SEATS: Record<GameMode, number[]> = {
+  partners: [0, 1, 2, 3],
+  cutthroat: [0, 1, 3],
+  "two-handed": [0, 2],
+};
+
+// Seats dealt in, in playing order from seat 0
+export const getSeats = (rules: RuleSet): number[] => SEATS[rules.mode] ?? SEATS.partners;
+
+export const isSeated = (rules: RuleSet, seat: number): boolean => getSeats(rules).includes(seat);
+
+// The next seat to the left that is dealt in
+export const nextSeat = (rules: RuleSet, seat: number): number => {
+  let next = (seat + 1) % 4;
+  while (!isSeated(rules, next)) next = (next + 1) % 4;
+  return next;
+};
+
+// Seats sharing each score, indexed like GameState.scores
+export const getTeams = (rules: RuleSet): number[][] =>
+  rules.mode === "partners" ? [[0, 2], [1, 3]] : getSeats(rules).map(seat => [seat]);
+
+export const getTeam = (rules: RuleSet, seat: number): number =>
+  getTeams(rules).findIndex(team => team.includes(seat));
+
+// A zero for every team: a new game's scores, or a new hand's tricks
+export const emptyTeamCounts = (rules: RuleSet): number[] => getTeams(rules).map(() => 0);
+
+// The side each seat plays on once `maker` has named trump: 0 for seat 0's side, 1 for the other.
+// Partners are always on the same side; otherwise it's the maker against everyone else.
+export const getSides = (rules: RuleSet, maker: number): number[] =>
+  [0, 1, 2, 3].map(seat => (rules.mode === "partners" ? seat % 2 : Number((seat === maker) !== (maker === 0))));
+
+// Do two seats play together this hand?
+export const onSameSide = (state: GameState, a: number, b: number): boolean => {
+  const sides = getSides(state.rules, state.trumpSelector);
+  return sides[a] === sides[b];
+};
+
+export const isMakerSide = (state: GameState, seat: number): boolean => onSameSide(state, seat, state.trumpSelector);
+
+// The seat playing alongside `seat` this hand. In cutthroat the two defenders team
+// up once trump is made, and the maker (or anyone during the auction) has nobody.
+export const getPartner = (state: GameState, seat: number): number | null => {
+  if (state.rules.mode === "partners") return (seat + 2) % 4;
+  if (!state.trump) return null;
+  return getSeats(state.rules).find(other => other !== seat && onSameSide(state, seat, other)) ?? null;
+};
+
+// "Us" and "Them" across a partners table; otherwise each team is one player
+export const getTeamName = (rules: RuleSet, players: Player[], team: number): string =>
+  rules.mode === "partners" ? (team === 0 ? "Us" : "Them") : players[getTeams(rules)[team][0]]?.name;
@@ -0,0 +1,224 @@
+import { Card, GameState, HandRecord, RuleSet, Suit, TrickPlay } from "@/types/game";
+import { determineWinner, getLegalPlays } from "@/utils/gameUtils";
+import { getEffectiveSuit, getSuitRank } from "@/utils/cardRanking";
+import { getSatOutSeats } from "@/engine/rules";
+import { getSides } from "@/engine/seating";
+import { getPlayableCards } from "@/engine/tableau";
+
+// Double-dummy solver: with every hand face up, the number of tricks each side
+// takes from a position when both sides play perfectly. A euchre hand is at most
+// 20 cards, so it can be solved exactly in the browser: the search asks "can side 0
+// take at least k tricks?" for increasing k, remembers the answer for every
+// position at the start of a trick, and only tries one of any run of touching cards.
+
+export type SolverPosition = {
+  trump: Suit;
+  hands: Card[][];
+  trick: TrickPlay[];
+  toPlay: number;
+  // Seats sitting out of a lone hand are false
+  active: boolean[];
+  // Side each seat plays on for the hand (see engine/seating)
+  sides: number[];
+};
+
+export type PlayValue = {
+  card: Card;
+  // Tricks the mover's side takes from here on after playing this card
+  tricks: number;
+};
+
+const nextActive = (active: boolean[], from: number): number => {
+  let next = (from + 1) % active.length;
+  while (!active[next]) next = (next + 1) % active.length;
+  return next;
+};
+
+const positionKey = (hands: Card[][], toPlay: number, target: number): string =>
+  `${target}|${toPlay}|${hands.map(hand => hand.map(c => c.id).sort().join(",")).join("|")}`;
+
+// Legal cards worth trying: of two cards with nothing live between them in the
+// same suit (say the K and Q when the A is gone), it never matters which is played
+const getCandidates = (position: SolverPosition): Card[] => {
+  const { trump, hands, trick, toPlay } = position;
+  const hand = hands[toPlay];
+  const legal = getLegalPlays(hand, trick.map(play => play.card), trump);
+  const live = [...hands.flat(), ...trick.map(play => play.card)];
+
+  return legal.filter(card => {
+    const suit = getEffectiveSuit(card, trump);
+    const rank = getSuitRank(card, trump);
+    // The next higher live card of the same suit
+    const above = live
+      .filter(c => getEffectiveSuit(c, trump) === suit && getSuitRank(c, trump) > rank)
+      .reduce<Card | null>((next, c) => (!next || getSuitRank(c, trump) < getSuitRank(next, trump) ? c : next), null);
+    return !above || !legal.some(c => c.id === above.id);
+  });
+};
+
+const tricksLeft = (position: SolverPosition): number => {
+  const activeCount = position.active.filter(Boolean).length;
+  const cardsLeft = position.hands.reduce((total, hand, seat) => total + (position.active[seat] ? hand.length : 0), 0);
+  return (cardsLeft + position.trick.length) / activeCount;
+};
+
+// Can side 0 take at least `target` more tricks from here?
+const canReach = (
+  position: SolverPosition,
+  target: number,
+  activeCount: number,
+  memo: Map<string, boolean>
+): boolean => {
+  if (target <= 0) return true;
+  if (target > tricksLeft(position)) return false;
+
+  const { trump, hands, trick, toPlay, active, sides } = position;
+
+  if (trick.length === activeCount) {
+    const winner = trick[determineWinner(trick.map(play => play.card), trump)].seat;
+    const next = { ...position, trick: [], toPlay: winner };
+    return canReach(next, sides[winner] === 0 ? target - 1 : target, activeCount, memo);
+  }
+
+  const key = trick.length === 0 ? positionKey(hands, toPlay, target) : null;
+  if (key && memo.has(key)) return memo.get(key);
+
+  const team0ToPlay = sides[toPlay] === 0;
+  let result = !team0ToPlay;
+  for (const card of getCandidates(position)) {
+    const reached = canReach({
+      ...position,
+      hands: hands.map((h, seat) => (seat === toPlay ? h.filter(c => c.id !== card.id) : h)),
+      trick: [...trick, { seat: toPlay, card }],
+      toPlay: nextActive(active, toPlay),
+    }, target, activeCount, memo);
+    // Side 0 needs one card that gets there; side 1 needs one that stops it
+    if (reached === team0ToPlay) {
+      result = reached;
+      break;
+    }
+  }
+
+  if (key) memo.set(key, result);
+  return result;
+};
+
+// Tricks side 0 takes from here on
+const search = (
+  position: SolverPosition,
+  activeCount: number,
+  memo: Map<string, boolean>
+): number => {
+  let tricks = 0;
+  while (tricks < tricksLeft(position) && canReach(position, tricks + 1, activeCount, memo)) {
+    tricks++;
+  }
+  return tricks;
+};
+
+// Tricks each side takes from this position on, with perfect play all round
+export const solvePosition = (position: SolverPosition): [number, number] => {
+  const activeCount = position.active.filter(Boolean).length;
+  const team0 = search(position, activeCount, new Map());
+  return [team0, tricksLeft(position) - team0];
+};
+
+// The value of every legal card for the player to move
+export const getPlayValues = (position: SolverPosition): PlayValue[] => {
+  const { trump, hands, trick, toPlay, active, sides } = position;
+  const activeCount = active.filter(Boolean).length;
+  const hand = hands[toPlay];
+  const legal = getLegalPlays(hand, trick.map(play => play.card), trump);
+  const memo = new Map<string, boolean>();
+  const total = tricksLeft(position);
+
+  return legal.map(card => {
+    const team0 = search({
+      ...position,
+      hands: hands.map((h, seat) => (seat === toPlay ? h.filter(c => c.id !== card.id) : h)),
+      trick: [...trick, { seat: toPlay, card }],
+      toPlay: nextActive(active, toPlay),
+    }, activeCount, memo);
+    return { card, tricks: sides[toPlay] === 0 ? team0 : total - team0 };
+  });
+};
+
+// The value of every card `seat` could discard before the first lead. The candidate
+// positions only differ in one hand and soon meet again, so they share one memo.
+export const getDiscardValues = (position: SolverPosition, seat: number): PlayValue[] => {
+  const { hands, active, sides } = position;
+  const activeCount = active.filter(Boolean).length;
+  const memo = new Map<string, boolean>();
+
+  return hands[seat].map(card => {
+    const after = { ...position, hands: hands.map((h, i) => (i === seat ? h.filter(c => c.id !== card.id) : h)) };
+    const team0 = search(after, activeCount, memo);
+    return { card, tricks: sides[seat] === 0 ? team0 : tricksLeft(after) - team0 };
+  });
+};
+
+export const positionFromState = (state: GameState): SolverPosition => ({
+  trump: state.trump,
+  hands: state.players.map(getPlayableCards),
+  trick: state.trickCards,
+  toPlay: state.currentPlayer,
+  active: state.players.map(p => !p.sittingOut),
+  sides: getSides(state.rules, state.trumpSelector),
+});
+
+export type PlayAnalysis = {
+  trickIndex: number;
+  card: Card;
+  bestCards: Card[];
+  // Tricks the player's side gave up compared with the best card
+  tricksLost: number;
+};
+
+export type HandAnalysis = {
+  // Tricks each side (see engine/seating) would take with perfect play from the first lead
+  bestLine: [number, number];
+  plays: PlayAnalysis[];
+};
+
+// Replay a finished hand and grade every card `seat` played against the solver
+export const analyzeHand = (record: HandRecord, seat: number, rules: RuleSet): HandAnalysis => {
+  const satOut = getSatOutSeats(record, rules);
+  const active = record.hands.map((_, i) => !satOut.includes(i));
+  const sides = getSides(rules, record.trumpSelector);
+  let hands = record.hands;
+  let bestLine: [number, number] = [0, 0];
+  const plays: PlayAnalysis[] = [];
+
+  record.tricks.forEach((trick, trickIndex) => {
+    trick.forEach((play, i) => {
+      const position: SolverPosition = {
+        trump: record.trump,
+        hands,
+        trick: trick.slice(0, i),
+        toPlay: play.seat,
+        active,
+        sides,
+      };
+
+      if (trickIndex === 0 && i === 0) {
+        bestLine = solvePosition(position);
+      }
+
+      if (play.seat === seat) {
+        const values = getPlayValues(position);
+        const best = Math.max(...values.map(v => v.tricks));
+        const played = values.find(v => v.card.id === play.card.id);
+        plays.push({
+          trickIndex,
+          card: play.card,
+          bestCards: values.filter(v => v.tricks === best).map(v => v.card),
+          tricksLost: played ? best - played.tricks : 0,
+        });
+      }
+
+      hands = hands.map((hand, s) => (s === play.seat ? hand.filter(c => c.id !== play.card.id) : hand));
+    });
+  });
+
+  return { bestLine, plays };
+};
@@ -0,0 +1,46 @@
+import { Card, Player, TableauPile } from "@/types/game";
+
+// Two-handed tableau. Besides a hand, each player has a row of piles dealt face
+// down, each covered by a face-up card. Face-up cards are public and playable just
+// like cards in hand; once one is played, the card under it is turned up at the
+// end of the trick. Everything that asks "what can this seat play" goes through
+// getPlayableCards, so the rest of the engine never needs to know about piles.
+
+// Deal `piles` piles to each seat from the top of the deck: the face-down row, then the face-up row
+export const dealTableaus = (
+  deck: Card[],
+  piles: number,
+  seats: number[]
+): { tableaus: TableauPile[][]; remainingDeck: Card[] } => {
+  const remainingDeck = [...deck];
+  const tableaus: TableauPile[][] = [[], [], [], []];
+  seats.forEach(seat => {
+    const faceDown = remainingDeck.splice(remainingDeck.length - piles);
+    const faceUp = remainingDeck.splice(remainingDeck.length - piles);
+    tableaus[seat] = faceDown.map((card, i) => ({ faceDown: card, faceUp: faceUp[i] }));
+  });
+  return { tableaus, remainingDeck };
+};
+
+export const getFaceUpCards = (player: Player): Card[] =>
+  (player.tableau ?? []).map(pile => pile.faceUp).filter(Boolean);
+
+// Cards in hand plus the face-up tableau cards
+export const getPlayableCards = (player: Player): Card[] => [...player.hand, ...getFaceUpCards(player)];
+
+// Every card in a tableau, face down or up
+export const getTableauCards = (tableau: TableauPile[] = []): Card[] =>
+  tableau.flatMap(pile => [pile.faceUp, pile.faceDown]).filter(Boolean);
+
+// The player after playing `card`, from their hand or off the top of a pile
+export const removePlayedCard = (player: Player, card: Card): Player => ({
+  ...player,
+  hand: player.hand.filter(c => c.id !== card.id),
+  tableau: player.tableau?.map(pile => (pile.faceUp?.id === card.id ? { ...pile, faceUp: null } : pile)),
+});
+
+// Turn up the face-down card of every pile whose face-up card has gone
+export const turnUpUncovered = (player: Player): Player =>
+  player.tableau?.some(pile => !pile.faceUp && pile.faceDown)
+    ? { ...player, tableau: player.tableau.map(pile => (pile.faceUp ? pile : { faceDown: null, faceUp: pile.faceDown })) }
+    : player;
@@ -0,0 +1,209 @@
+import { GameState, Suit } from "@/types/game";
+import { applyAction, GameAction, initialState } from "@/reducers/gameReducer";
+import { createDeck, parseCardCode } from "@/utils/gameUtils";
+
+// Scripted lessons for the /tutorial route. Each step sets up a fixed position on
+// the real engine, accepts only the move being taught and then explains it.
+
+// Cards are written short: "JH" is the jack of hearts, "10S" the ten of spades
+export type ScriptedDeal = {
+  dealer: number;
+  // Your cards (seat 0); the other seats get filler cards
+  hand: string[];
+  // Once trump is made the position is mid-play, otherwise it's the first bidding round
+  trump?: Suit;
+  trumpSelector?: number;
+  turnUp?: string;
+  // Cards already in the current trick, as [seat, card]
+  trick?: [number, string][];
+  tricksWon?: [number, number];
+};
+
+export type TutorialMove =
+  | { type: "play"; card: string }
+  | { type: "order-up"; goingAlone: boolean }
+  | { type: "pass" };
+
+export type LessonStep = {
+  deal: ScriptedDeal;
+  prompt: string;
+  move: TutorialMove;
+  // Shown after a wrong move
+  hint: string;
+  // Why the move is right, shown once it's made
+  explanation: string;
+};
+
+export type Lesson = {
+  id: string;
+  title: string;
+  intro: string;
+  steps: LessonStep[];
+};
+
+// The engine state a scripted deal stands for, with seat 0 to move
+export const buildPosition = (deal: ScriptedDeal): GameState => {
+  const hand = deal.hand.map(code => parseCardCode(code));
+  const trick = (deal.trick ?? []).map(([seat, code]) => ({ seat, card: parseCardCode(code) }));
+  const turnUp = deal.turnUp ? parseCardCode(deal.turnUp) : undefined;
+  const used = new Set([...hand, ...trick.map(play => play.card), ...(turnUp ? [turnUp] : [])].map(c => c.id));
+  let filler = createDeck().filter(c => !used.has(c.id));
+
+  const hands = [0, 1, 2, 3].map(seat => {
+    if (seat === 0) return hand;
+    // Seats that already played to this trick hold one card fewer
+    const size = hand.length - (trick.some(play => play.seat === seat) ? 1 : 0);
+    const cards = filler.slice(0, size);
+    filler = filler.slice(size);
+    return cards;
+  });
+
+  const bidding = !deal.trump;
+  return {
+    ...initialState,
+    players: initialState.players.map((p, seat) => ({ ...p, hand: hands[seat] })),
+    deck: turnUp ? [turnUp, ...filler.slice(0, 3)] : filler.slice(0, 4),
+    dealer: deal.dealer,
+    currentPlayer: 0,
+    trump: deal.trump,
+    trumpSelector: deal.trumpSelector ?? 0,
+    turnUp,
+    trickCards: trick,
+    tricksWon: deal.tricksWon ?? [0, 0],
+    phase: bidding ? "bidding" : "playing",
+    // Everyone between the dealer and you has already passed
+    passCount: bidding ? (4 - (deal.dealer + 1) % 4) % 4 : 0,
+  };
+};
+
+export const toGameAction = (move: TutorialMove): GameAction => {
+  if (move.type === "play") return { type: "PLAY_CARD", card: parseCardCode(move.card) };
+  if (move.type === "order-up") return { type: "ORDER_UP", goingAlone: move.goingAlone };
+  return { type: "PASS" };
+};
+
+export const isExpectedMove = (step: LessonStep, move: TutorialMove): boolean =>
+  JSON.stringify(move) === JSON.stringify(step.move);
+
+// The board after the taught move has been made
+export const playStep = (step: LessonStep): GameState =>
+  applyAction(buildPosition(step.deal), toGameAction(step.move)).state;
+
+export const LESSONS: Lesson[] = [
+  {
+    id: "bowers",
+    title: "Card Ranking and the Bowers",
+    intro: "Trump beats every other suit. The two highest trumps are jacks: the jack of trump (the right bower) and the other jack of the same colour (the left bower).",
+    steps: [
+      {
+        deal: { dealer: 3, trump: "spades", trumpSelector: 0, hand: ["JS", "JC", "AS", "10S", "AD"] },
+        prompt: "Spades are trump and it's your lead. Play the highest card in the game.",
+        move: { type: "play", card: "JS" },
+        hint: "Aces aren't the top trump in euchre - look at your jacks.",
+        explanation: "The J♠ is the right bower and nothing can beat it. Trump ranks J♠, J♣, A♠, K♠, Q♠, 10♠, 9♠.",
+      },
+      {
+        deal: {
+          dealer: 0,
+          trump: "hearts",
+          trumpSelector: 1,
+          hand: ["JD", "QH", "9S", "KC", "10D"],
+          trick: [[1, "AH"], [2, "9H"], [3, "KH"]],
+        },
+        prompt: "Hearts are trump and CPU 1 led the A♥. Win the trick.",
+        move: { type: "play", card: "JD" },
+        hint: "The Q♥ can't beat the ace. One of your cards is secretly a heart this hand.",
+        explanation: "The J♦ is the left bower: with hearts trump it counts as a heart and ranks just below the J♥, above the A♥.",
+      },
+    ],
+  },
+  {
+    id: "follow-suit",
+    title: "Following Suit",
+    intro: "You must play a card of the suit that was led if you have one. If you don't, you may play anything - including trump.",
+    steps: [
+      {
+        deal: {
+          dealer: 2,
+          trump: "hearts",
+          trumpSelector: 1,
+          hand: ["JD", "9D", "AC", "QS", "10C"],
+          trick: [[3, "KD"]],
+        },
+        prompt: "Hearts are trump and CPU 3 led the K♦. Play a legal card.",
+        move: { type: "play", card: "9D" },
+        hint: "You have to follow diamonds - and the J♦ is a heart this hand, not a diamond.",
+        explanation: "The left bower belongs to the trump suit, so your only diamond is the 9♦ and you must play it.",
+      },
+      {
+        deal: {
+          dealer: 0,
+          trump: "clubs",
+          trumpSelector: 1,
+          hand: ["9C", "QC", "KS", "AD", "10S"],
+          trick: [[1, "AH"], [2, "9H"], [3, "QH"]],
+        },
+        prompt: "Clubs are trump, hearts were led and you have no hearts. Take the trick as cheaply as you can.",
+        move: { type: "play", card: "9C" },
+        hint: "Any trump beats the A♥, and you're the last to play.",
+        explanation: "Out of the led suit you may trump. Nobody plays after you, so the 9♣ is enough - keep the Q♣ for later.",
+      },
+    ],
+  },
+  {
+    id: "ordering-up",
+    title: "Ordering Up",
+    intro: "In the first round of bidding each player can pass or \"order up\" the turned-up card, making its suit trump. The dealer picks that card up.",
+    steps: [
+      {
+        deal: { dealer: 2, turnUp: "QS", hand: ["JC", "AS", "KS", "AH", "10D"] },
+        prompt: "Your partner dealt and turned up the Q♠. Should your team make spades trump?",
+        move: { type: "order-up", goingAlone: false },
+        hint: "Count your spades, remembering the J♣ is one - and your partner gets the Q♠.",
+        explanation: "The left bower, A♠ and K♠ are three trump, you have the A♥ too, and your partner picks up the Q♠. That's about three tricks for your team.",
+      },
+      {
+        deal: { dealer: 1, turnUp: "AD", hand: ["9D", "KC", "QH", "10S", "9S"] },
+        prompt: "CPU 1 dealt and turned up the A♦. What do you do?",
+        move: { type: "pass" },
+        hint: "One small trump and no aces won't take three tricks.",
+        explanation: "Ordering up would hand the opponents the A♦ and leave you with a single 9♦. Pass and wait for a better hand.",
+      },
+    ],
+  },
+  {
+    id: "going-alone",
+    title: "Going Alone",
+    intro: "With a very strong hand the maker can play without their partner. A lone hand that takes all five tricks scores 4 points instead of 2.",
+    steps: [
+      {
+        deal: { dealer: 2, turnUp: "9H", hand: ["JH", "JD", "AH", "KH", "AC"] },
+        prompt: "Your partner turned up the 9♥. Your hand is as strong as they come - how do you bid?",
+        move: { type: "order-up", goingAlone: true },
+        hint: "You hold the top four trump. Your partner's cards won't add anything.",
+        explanation: "Both bowers, the A♥ and K♥ will draw every trump, and the A♣ takes the last trick. Going alone turns a 2-point march into 4 points.",
+      },
+    ],
+  },
+  {
+    id: "scoring",
+    title: "Scoring",
+    intro: "The team that names trump (the makers) needs at least three of the five tricks.",
+    steps: [
+      {
+        deal: {
+          dealer: 1,
+          trump: "spades",
+          trumpSelector: 0,
+          hand: ["AS", "9D"],
+          trick: [[3, "KH"]],
+          tricksWon: [2, 1],
+        },
+        prompt: "Your team called spades and has 2 tricks to their 1. CPU 3 led the K♥ and you're out of hearts. Which card do you play?",
+        move: { type: "play", card: "AS" },
+        hint: "Your team needs a third trick - trump it.",
+        explanation: "Three tricks scores 1 point for the makers, all five (a march) 2, and a lone march 4. Makers who take fewer than three are euchred and the defenders score 2. First to 10 points wins.",
+      },
+    ],
+  },
+];
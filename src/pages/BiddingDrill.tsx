@@ -0,0 +1,79 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import BiddingDrillBoard from "@/components/BiddingDrillBoard";
+import { Button } from "@/components/ui/button";
+import { createBiddingDrill, recordDrillAnswer, SEAT_POSITIONS } from "@/engine/biddingDrill";
+import { randomSeed } from "@/engine/rng";
+import { loadDrillStats, saveDrillStats } from "@/utils/storage";
+import { ArrowLeft } from "lucide-react";
+
+const formatAccuracy = (answered: number, correct: number) =>
+  answered === 0 ? "-" : `${Math.round((correct / answered) * 100)}% (${answered})`;
+
+const BiddingDrill = () => {
+  const [drill, setDrill] = useState(() => createBiddingDrill(randomSeed()));
+  const [answered, setAnswered] = useState(false);
+  const [stats, setStats] = useState(loadDrillStats);
+
+  const handleAnswer = (correct: boolean) => {
+    setAnswered(true);
+    const next = recordDrillAnswer(stats, drill, correct);
+    setStats(next);
+    saveDrillStats(next);
+  };
+
+  const handleNext = () => {
+    setDrill(createBiddingDrill(randomSeed()));
+    setAnswered(false);
+  };
+
+  const totals = stats.flat().reduce((sum, t) => ({ answered: sum.answered + t.answered, correct: sum.correct + t.correct }), { answered: 0, correct: 0 });
+
+  return (
+    <div className="min-h-screen bg-gray-100 p-4">
+      <div className="max-w-4xl mx-auto space-y-4">
+        <div className="flex items-center justify-between">
+          <h1 className="text-xl md:text-2xl font-bold">Bidding Drill</h1>
+          <Link to="/" className="flex items-center gap-1 text-sm text-blue-600 hover:underline">
+            <ArrowLeft className="w-4 h-4" />
+            Back to the game
+          </Link>
+        </div>
+
+        <div className="grid md:grid-cols-[1fr_260px] gap-4">
+          <div className="bg-white rounded-lg shadow p-4 space-y-4">
+            <BiddingDrillBoard key={drill.seed} drill={drill} onAnswer={handleAnswer} />
+            <div className="flex justify-end">
+              <Button disabled={!answered} onClick={handleNext}>Next Hand</Button>
+            </div>
+          </div>
+
+          <div className="bg-white rounded-lg shadow p-3 text-sm space-y-2 h-fit">
+            <p className="font-medium">
+              Agreement with the bidder: {formatAccuracy(totals.answered, totals.correct)}
+            </p>
+            <table className="w-full text-left">
+              <thead>
+                <tr className="text-xs text-gray-500">
+                  <th className="font-normal">Seat</th>
+                  <th className="font-normal">Round 1</th>
+                  <th className="font-normal">Round 2</th>
+                </tr>
+              </thead>
+              <tbody>
+                {SEAT_POSITIONS.map((label, position) => <tr key={label} className="border-t">
+                    <td className="py-1">{label}</td>
+                    {stats[position].map((tally, round) => <td key={round} className="py-1">
+                        {formatAccuracy(tally.answered, tally.correct)}
+                      </td>)}
+                  </tr>)}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BiddingDrill;
@@ -0,0 +1,141 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import PuzzleBoard from "@/components/PuzzleBoard";
+import { Button } from "@/components/ui/button";
+import { parsePuzzleFile, validatePuzzle, type Puzzle } from "@/engine/puzzles";
+import { loadImportedPuzzles, loadPuzzleProgress, saveImportedPuzzles, savePuzzleProgress } from "@/utils/storage";
+import { cn } from "@/lib/utils";
+import { ArrowLeft, CheckCircle2, Flame, Upload } from "lucide-react";
+
+// The bundled library, along with any puzzles in it that fail validation
+const fetchLibrary = async (): Promise<{ puzzles: Puzzle[]; errors: string[] }> => {
+  const response = await fetch("/puzzles.json");
+  if (!response.ok) throw new Error(`Couldn't load puzzles (${response.status})`);
+  return parsePuzzleFile(await response.text());
+};
+
+const Puzzles = () => {
+  const { data, isLoading, error } = useQuery({ queryKey: ["puzzles"], queryFn: fetchLibrary });
+  const library = data?.puzzles ?? [];
+  const libraryErrors = data?.errors ?? [];
+  // Saved imports are checked again in case the rules or the stored copy changed
+  const [imported, setImported] = useState<Puzzle[]>(() => loadImportedPuzzles().filter(p => validatePuzzle(p).length === 0));
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+  const [progress, setProgress] = useState(loadPuzzleProgress);
+  const [index, setIndex] = useState(0);
+  const [answered, setAnswered] = useState(false);
+  // Bumped on every open so picking the same puzzle again starts it fresh
+  const [attempt, setAttempt] = useState(0);
+
+  // An imported puzzle replaces a library puzzle with the same id
+  const puzzles = [...library.filter(p => !imported.some(i => i.id === p.id)), ...imported];
+  const puzzle = puzzles[Math.min(index, puzzles.length - 1)];
+
+  const openPuzzle = (i: number) => {
+    setIndex(i);
+    setAnswered(false);
+    setAttempt(attempt + 1);
+  };
+
+  const handleAnswer = (correct: boolean) => {
+    setAnswered(true);
+    const streak = correct ? progress.streak + 1 : 0;
+    const next = {
+      solved: correct && !progress.solved.includes(puzzle.id) ? [...progress.solved, puzzle.id] : progress.solved,
+      streak,
+      bestStreak: Math.max(progress.bestStreak, streak),
+    };
+    setProgress(next);
+    savePuzzleProgress(next);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    // Anything the validator misses still ends up in the error list rather than failing silently
+    try {
+      const result = parsePuzzleFile(await file.text());
+      setImportErrors(result.errors);
+      if (result.puzzles.length === 0) return;
+      const next = [...imported.filter(p => !result.puzzles.some(r => r.id === p.id)), ...result.puzzles];
+      setImported(next);
+      saveImportedPuzzles(next);
+    } catch (e) {
+      setImportErrors([`Couldn't import the file: ${(e as Error).message}`]);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-100 p-4">
+      <div className="max-w-4xl mx-auto space-y-4">
+        <div className="flex items-center justify-between">
+          <h1 className="text-xl md:text-2xl font-bold">Euchre Puzzles</h1>
+          <Link to="/" className="flex items-center gap-1 text-sm text-blue-600 hover:underline">
+            <ArrowLeft className="w-4 h-4" />
+            Back to the game
+          </Link>
+        </div>
+
+        <div className="grid md:grid-cols-[220px_1fr] gap-4">
+          <div className="space-y-4">
+            <div className="bg-white rounded-lg shadow p-3 text-sm space-y-1">
+              <p className="flex items-center gap-1 font-medium">
+                <Flame className="w-4 h-4 text-orange-500" />
+                Streak: {progress.streak}
+              </p>
+              <p className="text-gray-600">Best streak: {progress.bestStreak}</p>
+              <p className="text-gray-600">Solved: {progress.solved.length} of {puzzles.length}</p>
+            </div>
+
+            <nav className="bg-white rounded-lg shadow p-2 space-y-1">
+              {puzzles.map((p, i) => <button key={p.id} onClick={() => openPuzzle(i)} className={cn("w-full flex items-center justify-between gap-2 text-left text-sm px-2 py-1.5 rounded", p.id === puzzle?.id ? "bg-gray-100 font-medium" : "hover:bg-gray-50")}>
+                  {i + 1}. {p.title}
+                  {progress.solved.includes(p.id) && <CheckCircle2 className="w-4 h-4 text-green-600 shrink-0" />}
+                </button>)}
+            </nav>
+
+            <div className="bg-white rounded-lg shadow p-3 space-y-2">
+              <Button variant="outline" className="w-full" asChild>
+                <label className="cursor-pointer">
+                  <Upload className="w-4 h-4 mr-2" />
+                  Import Puzzles
+                  <input type="file" accept=".json,application/json" className="hidden" onChange={handleImport} />
+                </label>
+              </Button>
+              {importErrors.length > 0 && <ul className="text-xs text-red-600 space-y-1 max-h-40 overflow-y-auto">
+                  {importErrors.map((e, i) => <li key={i}>{e}</li>)}
+                </ul>}
+            </div>
+          </div>
+
+          <div className="bg-white rounded-lg shadow p-4 space-y-4">
+            {isLoading && <p className="text-sm text-gray-600">Loading puzzles...</p>}
+            {error && <p className="text-sm text-red-600">{(error as Error).message}</p>}
+            {libraryErrors.length > 0 && <div className="text-xs text-red-600 space-y-1">
+                <p className="font-medium">Some puzzles in the library were skipped:</p>
+                <ul className="space-y-1 max-h-40 overflow-y-auto">
+                  {libraryErrors.map((e, i) => <li key={i}>{e}</li>)}
+                </ul>
+              </div>}
+            {puzzle && <>
+                <div>
+                  <h2 className="text-lg font-bold">{puzzle.title}</h2>
+                  <p className="text-sm text-gray-600">Find the best card to play.</p>
+                </div>
+                <PuzzleBoard key={`${puzzle.id}-${attempt}`} puzzle={puzzle} onAnswer={handleAnswer} />
+                <div className="flex justify-end">
+                  <Button disabled={!answered || index >= puzzles.length - 1} onClick={() => openPuzzle(index + 1)}>
+                    Next Puzzle
+                  </Button>
+                </div>
+              </>}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Puzzles;
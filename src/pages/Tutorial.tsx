@@ -0,0 +1,83 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import TutorialBoard from "@/components/TutorialBoard";
+import { Button } from "@/components/ui/button";
+import { LESSONS } from "@/engine/tutorial";
+import { loadTutorialProgress, saveTutorialProgress } from "@/utils/storage";
+import { cn } from "@/lib/utils";
+import { ArrowLeft, CheckCircle2 } from "lucide-react";
+
+const Tutorial = () => {
+  const [completed, setCompleted] = useState<string[]>(loadTutorialProgress);
+  // Start at the first lesson not yet finished
+  const [lessonIndex, setLessonIndex] = useState(() => Math.max(LESSONS.findIndex(l => !completed.includes(l.id)), 0));
+  const [stepIndex, setStepIndex] = useState(0);
+  const [stepSolved, setStepSolved] = useState(false);
+
+  const lesson = LESSONS[lessonIndex];
+  const isLastStep = stepIndex === lesson.steps.length - 1;
+
+  const openLesson = (index: number) => {
+    setLessonIndex(index);
+    setStepIndex(0);
+    setStepSolved(false);
+  };
+
+  const handleSolved = () => {
+    setStepSolved(true);
+    if (isLastStep && !completed.includes(lesson.id)) {
+      const next = [...completed, lesson.id];
+      setCompleted(next);
+      saveTutorialProgress(next);
+    }
+  };
+
+  const handleNext = () => {
+    if (!isLastStep) {
+      setStepIndex(stepIndex + 1);
+      setStepSolved(false);
+    } else if (lessonIndex < LESSONS.length - 1) {
+      openLesson(lessonIndex + 1);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-100 p-4">
+      <div className="max-w-4xl mx-auto space-y-4">
+        <div className="flex items-center justify-between">
+          <h1 className="text-xl md:text-2xl font-bold">Euchre Tutorial</h1>
+          <Link to="/" className="flex items-center gap-1 text-sm text-blue-600 hover:underline">
+            <ArrowLeft className="w-4 h-4" />
+            Back to the game
+          </Link>
+        </div>
+
+        <div className="grid md:grid-cols-[220px_1fr] gap-4">
+          <nav className="bg-white rounded-lg shadow p-2 space-y-1 h-fit">
+            <p className="text-xs text-gray-500 px-2 pb-1">{completed.length} of {LESSONS.length} lessons done</p>
+            {LESSONS.map((l, i) => <button key={l.id} onClick={() => openLesson(i)} className={cn("w-full flex items-center justify-between gap-2 text-left text-sm px-2 py-1.5 rounded", i === lessonIndex ? "bg-gray-100 font-medium" : "hover:bg-gray-50")}>
+                {i + 1}. {l.title}
+                {completed.includes(l.id) && <CheckCircle2 className="w-4 h-4 text-green-600 shrink-0" />}
+              </button>)}
+          </nav>
+
+          <div className="bg-white rounded-lg shadow p-4 space-y-4">
+            <div>
+              <h2 className="text-lg font-bold">{lesson.title}</h2>
+              <p className="text-sm text-gray-600">{lesson.intro}</p>
+            </div>
+            <p className="text-xs text-gray-500">Step {stepIndex + 1} of {lesson.steps.length}</p>
+            <TutorialBoard key={`${lesson.id}-${stepIndex}`} step={lesson.steps[stepIndex]} onSolved={handleSolved} />
+            <div className="flex justify-end">
+              <Button disabled={!stepSolved || (isLastStep && lessonIndex === LESSONS.length - 1)} onClick={handleNext}>
+                {isLastStep ? "Next Lesson" : "Next Step"}
+              </Button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Tutorial;
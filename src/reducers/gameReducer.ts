@@ -1,14 +1,35 @@
-import { GameState, Card, Suit } from "@/types/game";
-import { createDeck, dealCards, isValidPlay, determineWinner } from "@/utils/gameUtils";
-import { toast } from "sonner";
+import { GameState, Card, Suit, Player, BotLevel, HandRecord, BidRecord, Convention, RuleSet, DealCode } from "@/types/game";
+import {
+  dealFromSeed,
+  determineWinner,
+  getHandPoints,
+  getLegalPlays,
+} from "@/utils/gameUtils";
+import { createRng } from "@/engine/rng";
+import { getBotStrategy, DEFAULT_BOT_LEVEL } from "@/engine/bots";
+import { GameEvent } from "@/engine/events";
+import { CoachAction, markDecision } from "@/engine/coach";
+import { getConventionPlay } from "@/engine/conventions";
+import { canGoAlone, canSwapFarmersHand, DEFAULT_RULES, getDealLayout, getFarmersSwapCards, mustDealerCall } from "@/engine/rules";
+import { isJoker } from "@/utils/cardRanking";
+import { dealRulesMatch, describeDealRules } from "@/engine/dealCode";
+import { emptyTeamCounts, getPartner, getSeats, getTeam, isSeated, nextSeat } from "@/engine/seating";
+import { getPlayableCards, getTableauCards, removePlayedCard, turnUpUncovered } from "@/engine/tableau";
 
 export type GameAction =
-  | { type: "START_GAME" }
+  | { type: "START_GAME"; seed?: number; deal?: DealCode }
   | { type: "DEAL" }
   | { type: "PLAY_CARD"; card: Card }
+  | { type: "ORDER_UP"; goingAlone?: boolean }
+  | { type: "DISCARD"; card: Card }
   | { type: "SET_TRUMP"; suit: Suit; goingAlone?: boolean }
   | { type: "PASS" }
   | { type: "TOGGLE_LEARNING_MODE" }
+  | { type: "TOGGLE_CONVENTION"; convention: Convention }
+  | { type: "SET_RULES"; rules: Partial<RuleSet> }
+  | { type: "FARMERS_SWAP"; cards: Card[] }
+  | { type: "DEFEND_ALONE"; alone: boolean }
+  | { type: "SET_BOT_LEVEL"; seat: number; level: BotLevel }
   | { type: "CPU_PLAY" }
   | { type: "CLEAR_TRICK" };
 
@@ -16,35 +37,223 @@ export const initialState: GameState = {
   deck: [],
   players: [
     { id: "p1", name: "You", hand: [], isCPU: false },
-    { id: "p2", name: "CPU 1", hand: [], isCPU: true },
-    { id: "p3", name: "CPU 2", hand: [], isCPU: true },
-    { id: "p4", name: "CPU 3", hand: [], isCPU: true },
+    { id: "p2", name: "CPU 1", hand: [], isCPU: true, botLevel: DEFAULT_BOT_LEVEL },
+    { id: "p3", name: "CPU 2", hand: [], isCPU: true, botLevel: DEFAULT_BOT_LEVEL },
+    { id: "p4", name: "CPU 3", hand: [], isCPU: true, botLevel: DEFAULT_BOT_LEVEL },
   ],
   currentPlayer: 0,
   dealer: 0,
   trickCards: [],
+  playedTricks: [],
+  bids: [],
+  coachMarks: [],
+  handHistory: [],
   scores: [0, 0],
+  tricksWon: [0, 0],
   phase: "pre-game",
   learningMode: false,
+  conventions: ["trump-to-maker", "lead-next", "show-void"],
+  rules: DEFAULT_RULES,
   passCount: 0,
   trumpSelector: 0,
   goingAlone: false,
+  rngState: 1,
+  handSeed: 0,
+  events: [],
 };
 
-export const gameReducer = (state: GameState, action: GameAction): GameState => {
-  if (!state || !Array.isArray(state.players)) {
-    console.error("Invalid state detected, resetting to initial state");
-    return initialState;
+type Emit = (event: GameEvent) => void;
+
+// Hand seeds are unsigned 32-bit integers
+const SEED_RANGE = 0x100000000;
+
+// First seat after `from` (clockwise) whose player is not sitting out
+const nextActivePlayer = (players: Player[], from: number): number => {
+  let next = (from + 1) % 4;
+  while (players[next].sittingOut) {
+    next = (next + 1) % 4;
+  }
+  return next;
+};
+
+// Fix trump for the hand and seat the lone player's partner out if needed. An empty
+// cutthroat seat stays out.
+const makeTrump = (state: GameState, suit: Suit, goingAlone: boolean, emit: Emit): GameState => {
+  const partner = (state.currentPlayer + 2) % 4;
+
+  if (goingAlone) {
+    emit({ type: "GOING_ALONE", seat: state.currentPlayer });
   }
 
+  return {
+    ...state,
+    trump: suit,
+    trumpSelector: state.currentPlayer,
+    goingAlone,
+    passCount: 0,
+    players: state.players.map((p, i) => ({
+      ...p,
+      sittingOut: !isSeated(state.rules, i) || (goingAlone && i === partner)
+    }))
+  };
+};
+
+// Once trump is made: the dealer picks up an ordered-up card, then play starts left of the dealer.
+// A sitting-out dealer leaves the card where it is.
+const startPlay = (state: GameState): GameState => {
+  const { turnUp } = state;
+  if (state.turnedDown || !turnUp || state.players[state.dealer].sittingOut) {
+    return { ...state, phase: "playing", currentPlayer: nextActivePlayer(state.players, state.dealer) };
+  }
+  return {
+    ...state,
+    phase: "discarding",
+    currentPlayer: state.dealer,
+    deck: state.deck.filter(c => c.id !== turnUp.id),
+    players: state.players.map((p, i) => (i === state.dealer ? { ...p, hand: [...p.hand, turnUp] } : p)),
+  };
+};
+
+// A lone maker gives the defenders, left of the maker first, the chance to defend alone
+const afterTrump = (state: GameState): GameState => {
+  if (state.goingAlone && state.rules.defendAlone) {
+    return { ...state, phase: "defending", currentPlayer: (state.trumpSelector + 1) % 4 };
+  }
+  return startPlay(state);
+};
+
+// Everyone passed twice: the deal moves on without anyone playing the hand
+const throwIn = (state: GameState, emit: Emit): GameState => {
+  const dealer = nextSeat(state.rules, state.dealer);
+  emit({ type: "HAND_THROWN_IN", dealer });
+  const rng = createRng(state.rngState);
+  const handSeed = rng.int(SEED_RANGE);
+  return {
+    ...state,
+    phase: "dealing",
+    dealer,
+    handSeed,
+    rngState: rng.getState(),
+  };
+};
+
+// Add the current player's call to the auction
+const recordBid = (state: GameState, bid: Omit<BidRecord, "seat" | "round">): BidRecord[] => [
+  ...state.bids,
+  { seat: state.currentPlayer, round: state.phase === "bidding" ? 1 : 2, ...bid },
+];
+
+// Everything about the hand just finished, for the review and analysis screens
+const recordHand = (
+  state: GameState,
+  playedTricks: GameState["playedTricks"],
+  result: HandRecord["result"],
+  scores: number[]
+): HandRecord => {
+  // Active seats played out their whole hand; a sitting-out partner still holds theirs
+  const hands = state.players.map((p, seat) => [
+    ...playedTricks.flat().filter(play => play.seat === seat).map(play => play.card),
+    ...p.hand,
+  ]);
+  const deal = dealFromSeed(state.handSeed, state.rules);
+  const dealt = deal?.hands.map((hand, seat) => [...hand, ...getTableauCards(deal.tableaus[seat])]) ?? hands;
+  const pickedUp = !!state.turnUp && !state.turnedDown && !state.players[state.dealer].sittingOut;
+  // A farmer's hand swap changed the dealer's cards before the pick-up
+  const swap = state.farmersSwap;
+  const beforePickUp = swap?.seat === state.dealer
+    ? [...dealt[state.dealer].filter(c => !swap.gave.some(g => g.id === c.id)), ...swap.took]
+    : dealt[state.dealer];
+
+  return {
+    handSeed: state.handSeed,
+    dealer: state.dealer,
+    turnUp: state.turnUp,
+    dealt,
+    bids: state.bids,
+    discard: pickedUp
+      ? [...beforePickUp, state.turnUp].find(c => !hands[state.dealer].some(h => h.id === c.id))
+      : undefined,
+    trump: state.trump,
+    trumpSelector: state.trumpSelector,
+    goingAlone: state.goingAlone || false,
+    hands,
+    tableaus: state.rules.mode === "two-handed" ? deal?.tableaus : undefined,
+    tricks: playedTricks,
+    trickWinners: playedTricks.map(trick => trick[determineWinner(trick.map(play => play.card), state.trump)].seat),
+    result,
+    scores,
+    marks: state.coachMarks,
+    loneDefender: state.loneDefender,
+    farmersSwap: state.farmersSwap,
+  };
+};
+
+// The decision a human action stands for, so it can be checked against the coach
+const toCoachAction = (action: GameAction): CoachAction | null => {
+  switch (action.type) {
+    case "PASS":
+      return { type: "bid", bid: { action: "pass" } };
+    case "ORDER_UP":
+      return { type: "bid", bid: { action: "order-up", goingAlone: action.goingAlone || false } };
+    case "SET_TRUMP":
+      return { type: "bid", bid: { action: "call", suit: action.suit, goingAlone: action.goingAlone || false } };
+    case "DISCARD":
+      return { type: "discard", card: action.card };
+    case "PLAY_CARD":
+      return { type: "play", card: action.card };
+    default:
+      return null;
+  }
+};
+
+const reduce = (state: GameState, action: GameAction, emit: Emit): GameState => {
+  const next = reduceAction(state, action, emit);
+  const player = state.players[state.currentPlayer];
+  if (next === state || !state.learningMode || !player || player.isCPU) return next;
+
+  // In learning mode every human decision is marked against the coach's advice
+  const decision = toCoachAction(action);
+  const mark = decision && markDecision(state, state.currentPlayer, decision);
+  return mark ? { ...next, coachMarks: [...next.coachMarks, mark] } : next;
+};
+
+const reduceAction = (state: GameState, action: GameAction, emit: Emit): GameState => {
   switch (action.type) {
-    case "START_GAME":
+    case "START_GAME": {
+      // A deal code replays a specific first hand, as long as it was made under the same
+      // deck and mode and its dealer has a seat at this table
+      if (action.deal && !dealRulesMatch(action.deal, state.rules)) {
+        emit({ type: "DEAL_FAILED", reason: `That deal code is for ${describeDealRules(action.deal.rules)} - change the game settings to match.` });
+        return state;
+      }
+      if (action.deal && !isSeated(state.rules, action.deal.dealer)) {
+        emit({ type: "DEAL_FAILED", reason: "That deal code's dealer has no seat in this game mode." });
+        return state;
+      }
+      const deal = action.deal ?? null;
+      // Without a seed the game carries on the current random sequence
+      const rng = createRng(action.seed ?? state.rngState);
+      const seats = getSeats(state.rules);
+      const dealer = seats[rng.int(seats.length)];
+      const handSeed = rng.int(SEED_RANGE);
       return {
         ...initialState,
         phase: "dealing",
-        dealer: Math.floor(Math.random() * 4),
+        dealer: deal ? deal.dealer : dealer,
+        handSeed: deal ? deal.seed : handSeed,
+        scores: emptyTeamCounts(state.rules),
+        tricksWon: emptyTeamCounts(state.rules),
         learningMode: state.learningMode,
+        conventions: state.conventions,
+        rules: state.rules,
+        // Keep the chosen CPU strategies for the new game
+        players: initialState.players.map((p, i) => ({
+          ...p,
+          botLevel: state.players[i]?.botLevel ?? p.botLevel,
+        })),
+        rngState: rng.getState(),
       };
+    }
 
     case "TOGGLE_LEARNING_MODE":
       return {
@@ -52,48 +261,116 @@ export const gameReducer = (state: GameState, action: GameAction): GameState =>
         learningMode: !state.learningMode,
       };
 
+    case "TOGGLE_CONVENTION":
+      return {
+        ...state,
+        conventions: state.conventions.includes(action.convention)
+          ? state.conventions.filter(c => c !== action.convention)
+          : [...state.conventions, action.convention],
+      };
+
+    case "SET_RULES":
+      // House rules are fixed once a game is under way
+      if (state.phase !== "pre-game" && state.phase !== "game-over") return state;
+      return {
+        ...state,
+        rules: { ...state.rules, ...action.rules },
+      };
+
+    case "SET_BOT_LEVEL":
+      if (!state.players[action.seat]?.isCPU) return state;
+      return {
+        ...state,
+        players: state.players.map((p, i) =>
+          i === action.seat ? { ...p, botLevel: action.level } : p
+        ),
+      };
+
     case "DEAL": {
-      const deck = createDeck();
-      const dealResult = dealCards(deck);
+      const dealResult = dealFromSeed(state.handSeed, state.rules);
       
       if (!dealResult) {
-        toast.error("Failed to deal cards");
+        emit({ type: "DEAL_FAILED", reason: "Failed to deal cards" });
         return {
           ...initialState,
           phase: "pre-game"
         };
       }
 
-      const { hands, remainingDeck } = dealResult;
+      const { hands, tableaus, remainingDeck } = dealResult;
       
-      if (!hands || hands.length !== 4 || hands.some(hand => hand.length !== 5)) {
-        toast.error("Invalid deal detected");
+      const { handSize } = getDealLayout(state.rules);
+      if (!hands || hands.length !== 4 || getSeats(state.rules).some(seat => hands[seat].length !== handSize)) {
+        emit({ type: "DEAL_FAILED", reason: "Invalid deal detected" });
         return {
           ...initialState,
           phase: "pre-game"
         };
       }
 
+      // Two-handed turns nothing up: trump is named straight away, as in the second round
+      const turnUp = state.rules.mode === "two-handed" ? undefined : remainingDeck[0];
+      // A turned-up joker goes to the dealer, who names trump for it
+      const jokerTurnedUp = !!turnUp && isJoker(turnUp);
+      if (jokerTurnedUp) emit({ type: "JOKER_TURNED_UP", dealer: state.dealer });
+
       return {
         ...state,
         deck: remainingDeck,
-        players: state.players.map((p, i) => ({ ...p, hand: hands[i] })),
-        currentPlayer: (state.dealer + 1) % 4,
-        phase: "bidding",
+        turnUp,
+        turnedDown: undefined,
+        trump: undefined,
+        goingAlone: false,
+        tricksWon: emptyTeamCounts(state.rules),
+        playedTricks: [],
+        bids: [],
+        coachMarks: [],
+        loneDefender: undefined,
+        farmersSwap: undefined,
+        players: state.players.map((p, i) => ({
+          ...p,
+          hand: hands[i],
+          tableau: tableaus[i].length > 0 ? tableaus[i] : undefined,
+          sittingOut: !isSeated(state.rules, i),
+        })),
+        currentPlayer: jokerTurnedUp ? state.dealer : nextSeat(state.rules, state.dealer),
+        phase: jokerTurnedUp || !turnUp ? "calling" : "bidding",
         passCount: 0,
       };
     }
 
     case "PASS": {
+      if (state.phase !== "bidding" && state.phase !== "calling") return state;
+
       const newPassCount = state.passCount + 1;
-      const nextPlayer = (state.currentPlayer + 1) % 4;
-      
-      if (newPassCount === 3 && nextPlayer === state.dealer) {
-        toast.info("Dealer must select trump!");
+      const nextPlayer = nextSeat(state.rules, state.currentPlayer);
+      const seatCount = getSeats(state.rules).length;
+      const bids = recordBid(state, { action: "pass" });
+
+      if (state.phase === "bidding" && newPassCount === seatCount) {
+        // Everyone passed on the turn-up: turn it down and start the second round
+        return {
+          ...state,
+          phase: "calling",
+          turnedDown: state.turnUp?.suit,
+          currentPlayer: nextSeat(state.rules, state.dealer),
+          passCount: 0,
+          bids,
+        };
+      }
+
+      if (state.phase === "calling" && state.currentPlayer === state.dealer) {
+        // Stick the dealer: they have to name trump. Otherwise the hand is thrown in.
+        return mustDealerCall(state, state.currentPlayer) ? state : throwIn({ ...state, bids }, emit);
+      }
+
+      if (state.phase === "calling" && newPassCount === seatCount - 1 && nextPlayer === state.dealer && state.rules.stickTheDealer) {
+        emit({ type: "DEALER_STUCK", seat: nextPlayer });
         return {
           ...state,
           currentPlayer: nextPlayer,
           passCount: newPassCount,
+          bids,
         };
       }
 
@@ -101,91 +378,131 @@ export const gameReducer = (state: GameState, action: GameAction): GameState =>
         ...state,
         currentPlayer: nextPlayer,
         passCount: newPassCount,
+        bids,
+      };
+    }
+
+    case "ORDER_UP": {
+      if (state.phase !== "bidding" || !state.turnUp) return state;
+
+      const goingAlone = (action.goingAlone || false) && canGoAlone(state, state.currentPlayer);
+      return afterTrump({
+        ...makeTrump(state, state.turnUp.suit, goingAlone, emit),
+        bids: recordBid(state, { action: "order-up", suit: state.turnUp.suit, goingAlone }),
+      });
+    }
+
+    case "DISCARD": {
+      if (state.phase !== "discarding" || state.currentPlayer !== state.dealer) return state;
+
+      const dealer = state.players[state.dealer];
+      if (!dealer.hand.some(c => c.id === action.card.id)) return state;
+
+      const players = state.players.map((p, i) =>
+        i === state.dealer ? { ...p, hand: p.hand.filter(c => c.id !== action.card.id) } : p
+      );
+
+      return {
+        ...state,
+        players,
+        deck: [...state.deck, action.card],
+        phase: "playing",
+        currentPlayer: nextActivePlayer(players, state.dealer),
       };
     }
 
     case "SET_TRUMP": {
-      const goingAlone = action.goingAlone || false;
-      const partner = (state.currentPlayer + 2) % 4;
-      
-      if (goingAlone) {
-        const playerName = state.players[state.currentPlayer].name;
-        toast.info(`${playerName} is going alone!`, { duration: 2000 });
+      if (state.phase !== "calling" || action.suit === state.turnedDown) return state;
+
+      const goingAlone = (action.goingAlone || false) && canGoAlone(state, state.currentPlayer);
+      return afterTrump({
+        ...makeTrump(state, action.suit, goingAlone, emit),
+        bids: recordBid(state, { action: "call", suit: action.suit, goingAlone }),
+      });
+    }
+
+    case "DEFEND_ALONE": {
+      if (state.phase !== "defending") return state;
+
+      const seat = state.currentPlayer;
+      if (action.alone) {
+        emit({ type: "DEFENDING_ALONE", seat });
+        return startPlay({
+          ...state,
+          loneDefender: seat,
+          players: state.players.map((p, i) => (i === (seat + 2) % 4 ? { ...p, sittingOut: true } : p)),
+        });
       }
+      // The defender right of the maker answers second
+      if (seat === (state.trumpSelector + 1) % 4) {
+        return { ...state, currentPlayer: (state.trumpSelector + 3) % 4 };
+      }
+      return startPlay(state);
+    }
 
+    case "FARMERS_SWAP": {
+      const seat = state.currentPlayer;
+      const hand = state.players[seat].hand;
+      const cards = action.cards.filter(c => hand.some(h => h.id === c.id));
+      if (!canSwapFarmersHand(state, seat) || cards.length !== 3 || new Set(cards.map(c => c.id)).size !== 3) return state;
+
+      // The three kitty cards under the turn-up
+      const took = state.deck.slice(1, 4);
+      emit({ type: "FARMERS_HAND", seat });
       return {
         ...state,
-        trump: action.suit,
-        trumpSelector: state.currentPlayer,
-        phase: "playing",
-        currentPlayer: (state.dealer + 1) % 4,
-        goingAlone,
-        players: state.players.map((p, i) => ({
-          ...p,
-          sittingOut: goingAlone && i === partner
-        }))
+        deck: [state.deck[0], ...cards, ...state.deck.slice(4)],
+        farmersSwap: { seat, gave: cards, took },
+        players: state.players.map((p, i) =>
+          i === seat ? { ...p, hand: [...hand.filter(c => !cards.some(g => g.id === c.id)), ...took] } : p
+        ),
       };
     }
 
     case "PLAY_CARD": {
-      if (!state.trump) return state;
+      if (!state.trump || state.phase !== "playing") return state;
 
       const currentPlayer = state.players[state.currentPlayer];
       if (!currentPlayer || !currentPlayer.hand || currentPlayer.sittingOut) return state;
+      // Bots, sampled playouts, puzzles and the tutorial all play through here, so nobody may renege
+      const legal = getLegalPlays(getPlayableCards(currentPlayer), state.trickCards.map(play => play.card), state.trump);
+      if (!legal.some(c => c.id === action.card.id)) return state;
 
-      const newHand = currentPlayer.hand.filter((c) => c.id !== action.card.id);
-      const newTrickCards = [...state.trickCards, action.card];
+      const newTrickCards = [...state.trickCards, { seat: state.currentPlayer, card: action.card }];
       
       let newState = {
         ...state,
         players: state.players.map((p) =>
-          p.id === currentPlayer.id ? { ...p, hand: newHand } : p
+          p.id === currentPlayer.id ? removePlayedCard(p, action.card) : p
         ),
         trickCards: newTrickCards,
         shouldClearTrick: false,
       };
 
-      if (newTrickCards.length === (state.goingAlone ? 3 : 4)) {
-        // Find who led the trick
-        const leadPosition = state.currentPlayer - (newTrickCards.length - 1);
-        const leadPlayer = ((leadPosition % 4) + 4) % 4; // Ensure positive number
-        
-        // Get the winning position (0-3) relative to the lead
-        const winningPosition = determineWinner(newTrickCards, state.trump);
-        
-        // Calculate actual winner
-        const trickWinner = ((leadPlayer + winningPosition) % 4);
+      // Everyone who isn't sitting out plays once, whichever side went alone
+      const activePlayerCount = state.players.filter(p => !p.sittingOut).length;
+
+      if (newTrickCards.length === activePlayerCount) {
+        const winningPosition = determineWinner(newTrickCards.map(play => play.card), state.trump);
+        const trickWinner = newTrickCards[winningPosition].seat;
         
-        // Update scores
-        const newScores: [number, number] = [state.scores[0], state.scores[1]];
-        newScores[trickWinner % 2]++;
-
-        console.log('Trick details:', {
-          leadPosition,
-          leadPlayer,
-          winningPosition,
-          trickWinner,
-          currentPlayer: state.currentPlayer,
-          cards: newTrickCards.map(c => `${c.rank}-${c.suit}`)
-        });
+        // Update the hand's trick count
+        const newTricksWon = [...state.tricksWon];
+        newTricksWon[getTeam(state.rules, trickWinner)]++;
 
-        toast.success(`${state.players[trickWinner].name} wins the trick!`, {
-          duration: 1500,
-        });
+        emit({ type: "TRICK_WON", seat: trickWinner });
 
+        // The trick winner leads the next trick, once any uncovered tableau cards are turned up
         newState = {
           ...newState,
-          scores: newScores,
+          players: newState.players.map(turnUpUncovered),
+          tricksWon: newTricksWon,
           currentPlayer: trickWinner,
           shouldClearTrick: true
         };
       } else {
         // Move to next active player if trick isn't complete
-        let nextPlayer = (state.currentPlayer + 1) % 4;
-        while (state.goingAlone && state.players[nextPlayer].sittingOut) {
-          nextPlayer = (nextPlayer + 1) % 4;
-        }
-        newState.currentPlayer = nextPlayer;
+        newState.currentPlayer = nextActivePlayer(state.players, state.currentPlayer);
       }
 
       return newState;
@@ -195,42 +512,105 @@ export const gameReducer = (state: GameState, action: GameAction): GameState =>
       const cpu = state.players[state.currentPlayer];
       if (!cpu || !cpu.isCPU || !cpu.hand || state.shouldClearTrick || cpu.sittingOut) return state;
 
-      if (state.phase === "bidding") {
-        const shouldPass = Math.random() > 0.3;
-        if (shouldPass && state.currentPlayer !== state.dealer) {
-          return gameReducer(state, { type: "PASS" });
-        } else {
-          const suits: Suit[] = ["hearts", "diamonds", "spades", "clubs"];
-          const randomSuit = suits[Math.floor(Math.random() * suits.length)];
-          const goingAlone = Math.random() > 0.8;
-          return gameReducer(state, { type: "SET_TRUMP", suit: randomSuit, goingAlone });
+      const rng = createRng(state.rngState);
+      const bot = getBotStrategy(cpu.botLevel);
+      const context = { rng, simulate: applyAction };
+      const cpuAction = (next: GameAction) =>
+        reduce({ ...state, rngState: rng.getState() }, next, emit);
+
+      if (canSwapFarmersHand(state, state.currentPlayer)) {
+        return cpuAction({ type: "FARMERS_SWAP", cards: getFarmersSwapCards(cpu.hand) });
+      }
+
+      if (state.phase === "defending") {
+        return cpuAction({ type: "DEFEND_ALONE", alone: bot.chooseDefendAlone(state, state.currentPlayer, context) });
+      }
+
+      if (state.phase === "bidding" || state.phase === "calling") {
+        const bid = bot.chooseBid(state, state.currentPlayer, context);
+        if (bid.action === "order-up") {
+          return cpuAction({ type: "ORDER_UP", goingAlone: bid.goingAlone });
         }
+        if (bid.action === "call") {
+          return cpuAction({ type: "SET_TRUMP", suit: bid.suit, goingAlone: bid.goingAlone });
+        }
+        return cpuAction({ type: "PASS" });
+      }
+
+      if (state.phase === "discarding") {
+        return cpuAction({ type: "DISCARD", card: bot.chooseDiscard(state, state.currentPlayer, context) });
       }
 
       if (!state.trump) return state;
-      
-      const playableCards = cpu.hand.filter((c) =>
-        isValidPlay(c, cpu.hand, state.trickCards, state.trump)
-      );
-      
-      if (playableCards.length === 0) return state;
-      
-      const cardToPlay = playableCards[Math.floor(Math.random() * playableCards.length)];
-      return gameReducer(state, { type: "PLAY_CARD", card: cardToPlay });
+
+      // The human's partner sticks to the conventions agreed at the table
+      const partner = getPartner(state, state.currentPlayer);
+      const partnerOfHuman = partner !== null && !state.players[partner].isCPU;
+      const conventionPlay = partnerOfHuman ? getConventionPlay(state, state.currentPlayer) : null;
+      const cardToPlay = conventionPlay?.card ?? bot.choosePlay(state, state.currentPlayer, context);
+      if (!cardToPlay) return state;
+
+      return cpuAction({ type: "PLAY_CARD", card: cardToPlay });
     }
 
     case "CLEAR_TRICK": {
-      const allHandsEmpty = state.players.every(p => p.hand.length === 0);
+      if (!state.shouldClearTrick) return state;
+
+      const playedTricks = [...state.playedTricks, state.trickCards];
+
+      // A sitting-out partner keeps their cards, so only active hands count
+      const allHandsEmpty = state.players.every(p => p.sittingOut || getPlayableCards(p).length === 0);
       if (allHandsEmpty) {
-        toast.info("Hand complete! Dealing new cards...", {
-          duration: 1500,
-        });
+        const makerTeam = getTeam(state.rules, state.trumpSelector);
+        const result = getHandPoints(
+          state.tricksWon,
+          makerTeam,
+          state.goingAlone || false,
+          state.loneDefender !== undefined,
+          state.rules
+        );
+        const newScores = state.scores.map((score, team) => (result.teams.includes(team) ? score + result.points : score));
+
+        emit({ type: "HAND_SCORED", ...result });
+
+        const handHistory = [
+          ...state.handHistory,
+          recordHand(state, playedTricks, result, newScores),
+        ];
+
+        // Both cutthroat defenders can go out on the same euchre; the higher score wins,
+        // and players tied at the top play another hand until one of them is ahead
+        const top = Math.max(...newScores);
+        const leaders = newScores.map((_, team) => team).filter(team => newScores[team] === top);
+        if (top >= state.rules.pointsToWin && leaders.length > 1) {
+          emit({ type: "GAME_TIED", teams: leaders, score: top });
+        } else if (top >= state.rules.pointsToWin) {
+          return {
+            ...state,
+            scores: newScores,
+            winner: leaders[0],
+            phase: "game-over",
+            trickCards: [],
+            playedTricks,
+            handHistory,
+            shouldClearTrick: false,
+          };
+        }
+
+        const rng = createRng(state.rngState);
+        const handSeed = rng.int(SEED_RANGE);
+
         return {
           ...state,
+          scores: newScores,
           phase: "dealing",
           trickCards: [],
+          playedTricks,
+          handHistory,
           shouldClearTrick: false,
-          dealer: (state.dealer + 1) % 4,
+          dealer: nextSeat(state.rules, state.dealer),
+          handSeed,
+          rngState: rng.getState(),
         };
       }
 
@@ -238,6 +618,7 @@ export const gameReducer = (state: GameState, action: GameAction): GameState =>
       return {
         ...state,
         trickCards: [],
+        playedTricks,
         shouldClearTrick: false
       };
     }
@@ -246,3 +627,26 @@ export const gameReducer = (state: GameState, action: GameAction): GameState =>
       return state;
   }
 };
+
+// Pure engine entry point: the next state plus everything that happened on the way.
+// Safe to call from Node, a worker or a simulation loop.
+export const applyAction = (
+  state: GameState,
+  action: GameAction
+): { state: GameState; events: GameEvent[] } => {
+  if (!state || !Array.isArray(state.players)) {
+    console.error("Invalid state detected, resetting to initial state");
+    return { state: initialState, events: [] };
+  }
+
+  const events: GameEvent[] = [];
+  const nextState = reduce(state, action, (event) => events.push(event));
+  return { state: nextState, events };
+};
+
+// React reducer: keeps the latest action's events on the state for GameContext to announce
+export const gameReducer = (state: GameState, action: GameAction): GameState => {
+  const { state: nextState, events } = applyAction(state, action);
+  if (nextState === state && events.length === 0) return state;
+  return { ...nextState, events };
+};
@@ -1,21 +1,145 @@
+import { GameEvent } from "@/engine/events";
 
 export type Suit = "hearts" | "diamonds" | "spades" | "clubs";
-export type Rank = "9" | "10" | "J" | "Q" | "K" | "A";
+export type Rank = "7" | "8" | "9" | "10" | "J" | "Q" | "K" | "A" | "Joker";
+// The joker is the one card without a natural suit: it belongs to whichever suit is trump
 export type Card = {
-  suit: Suit;
+  suit: Suit | null;
   rank: Rank;
   id: string;
 };
 
+// A card played to the current trick, tagged with the seat that played it
+export type TrickPlay = {
+  seat: number;
+  card: Card;
+};
+
+// One call in the auction, in the order it was made
+export type BidRecord = {
+  seat: number;
+  round: 1 | 2;
+  action: "pass" | "order-up" | "call";
+  suit?: Suit;
+  goingAlone?: boolean;
+};
+
+// Partner signalling agreements the human's CPU partner and the coach play by (see engine/conventions)
+export type Convention = "trump-to-maker" | "lead-next" | "show-void";
+
+// Cards in the deck before any joker: 9s up, or adding the 8s, or the 7s and 8s
+export type DeckSize = 24 | 28 | 32;
+
+// "partners" is the usual two teams of two; "cutthroat" is three players who each
+// score alone, with the maker playing against the other two; "two-handed" is heads-up
+// with a tableau beside each hand (see engine/seating and engine/tableau)
+export type GameMode = "partners" | "cutthroat" | "two-handed";
+
+// House rules for a game, chosen before it starts (see engine/rules)
+export type RuleSet = {
+  mode: GameMode;
+  // When everyone passes twice the dealer must name trump; otherwise the hand is thrown in
+  stickTheDealer: boolean;
+  // A player dealt no face cards may swap three cards for the kitty
+  farmersHand: boolean;
+  // A defender may play alone against a lone maker
+  defendAlone: boolean;
+  // Whoever orders up the turn-up (other than the dealer) can't go alone
+  canadianLoner: boolean;
+  pointsToWin: number;
+  // Play with a 25-card deck whose joker ("Benny") is the highest trump
+  joker: boolean;
+  deckSize: DeckSize;
+};
+
+// The rules a deal depends on: the same seed deals differently under others (see engine/dealCode)
+export type DealRules = Pick<RuleSet, "mode" | "deckSize" | "joker">;
+
+export type DealCode = {
+  seed: number;
+  dealer: number;
+  rules: DealRules;
+};
+
+// Cards a farmer's hand traded with the kitty
+export type FarmersSwap = {
+  seat: number;
+  gave: Card[];
+  took: Card[];
+};
+
+// A human decision set against what the coach suggested at that moment (learning mode)
+export type CoachMark = {
+  seat: number;
+  kind: "bid" | "alone" | "discard" | "lead" | "follow";
+  // Trick the decision was made in, for leads and follows
+  trickIndex?: number;
+  chosen: string;
+  suggested: string;
+  agreed: boolean;
+  // Tricks given up against the coach's choice: double-dummy for cards, expected tricks for bids
+  cost: number;
+  // The coach's main reason for its suggestion
+  reason: string;
+};
+
+// A finished hand, kept so it can be reviewed and analysed once play has moved on
+export type HandRecord = {
+  handSeed: number;
+  dealer: number;
+  // Two-handed hands have no turn-up
+  turnUp?: Card;
+  // Each seat's cards as dealt, tableau included
+  dealt: Card[][];
+  bids: BidRecord[];
+  // The dealer's discard after picking up the turn-up
+  discard?: Card;
+  trump: Suit;
+  trumpSelector: number;
+  goingAlone: boolean;
+  // Each seat's cards once bidding and the dealer's discard were done
+  hands: Card[][];
+  // Two-handed tableaus as dealt
+  tableaus?: TableauPile[][];
+  tricks: TrickPlay[][];
+  // Seat that took each trick
+  trickWinners: number[];
+  // Teams that scored: the makers, or every defending team after a euchre
+  result: { teams: number[]; points: number; euchred: boolean };
+  // Game score once the hand was counted
+  scores: number[];
+  marks: CoachMark[];
+  loneDefender?: number;
+  farmersSwap?: FarmersSwap;
+};
+
+// One pile of a two-handed tableau: a face-down card under a face-up one. The face-down
+// card is turned up once the card covering it has been played.
+export type TableauPile = {
+  faceDown: Card | null;
+  faceUp: Card | null;
+};
+
+export type BotLevel = "beginner" | "intermediate" | "advanced" | "expert";
+
 export type Player = {
   id: string;
   name: string;
   hand: Card[];
   isCPU: boolean;
+  // Two-handed only: piles played from alongside the hand (see engine/tableau)
+  tableau?: TableauPile[];
+  // Out of the hand: a lone player's partner, or the empty seat in cutthroat
   sittingOut?: boolean;
+  // Strategy a CPU seat plays with (see engine/bots)
+  botLevel?: BotLevel;
 };
 
-export type GamePhase = "pre-game" | "dealing" | "bidding" | "playing";
+// "bidding" is the first round (order up the turn-up card), "calling" the second
+// round (name any other suit), and "discarding" is the dealer swapping out a card
+// after picking up the turn-up. "game-over" is reached once a team hits the winning score.
+// "defending" is when the defenders decide whether to play alone against a lone maker
+export type GamePhase = "pre-game" | "dealing" | "bidding" | "calling" | "defending" | "discarding" | "playing" | "game-over";
 
 export type GameState = {
   deck: Card[];
@@ -23,12 +147,38 @@ export type GameState = {
   currentPlayer: number;
   dealer: number;
   trump?: Suit;
+  turnUp?: Card;
+  turnedDown?: Suit;
   trumpSelector: number;
-  trickCards: Card[];
-  scores: [number, number];
+  trickCards: TrickPlay[];
+  // Tricks already finished this hand, oldest first
+  playedTricks: TrickPlay[][];
+  // Auction and coach marks for the hand in progress
+  bids: BidRecord[];
+  coachMarks: CoachMark[];
+  // Every completed hand this game, oldest first
+  handHistory: HandRecord[];
+  // Game points per team (see engine/seating). With partners 0 = you and CPU 2,
+  // 1 = CPU 1 and CPU 3; in cutthroat every player is a team of their own
+  scores: number[];
+  // Tricks taken by each team in the current hand
+  tricksWon: number[];
+  winner?: number;
   phase: GamePhase;
   learningMode: boolean;
+  // Conventions switched on at this table
+  conventions: Convention[];
+  rules: RuleSet;
+  // Defender playing alone against a lone maker this hand
+  loneDefender?: number;
+  farmersSwap?: FarmersSwap;
   passCount: number;
   shouldClearTrick?: boolean;
   goingAlone?: boolean;
+  // Seeded random number generator state (see engine/rng)
+  rngState: number;
+  // Seed the current (or next) hand is dealt from; shared as a deal code
+  handSeed: number;
+  // Events produced by the last action, for the UI to announce
+  events: GameEvent[];
 };
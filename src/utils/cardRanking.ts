@@ -0,0 +1,100 @@
+import { Card, DeckSize, Rank, RuleSet, Suit } from "@/types/game";
+
+// Natural order of the ranks, lowest first. The 7s and 8s are only in the longer decks.
+export const RANKS: Rank[] = ["7", "8", "9", "10", "J", "Q", "K", "A"];
+
+// Trump order below the two bowers, lowest first
+const TRUMP_RANKS: Rank[] = ["7", "8", "9", "10", "Q", "K", "A"];
+
+// The ranks dealt with each deck size
+export const getDeckRanks = (deckSize: DeckSize): Rank[] => RANKS.slice((32 - deckSize) / 4);
+
+// Helper to get the corresponding left bower suit
+export const getLeftBowerSuit = (trump: Suit): Suit => {
+  switch (trump) {
+    case "hearts": return "diamonds";
+    case "diamonds": return "hearts";
+    case "spades": return "clubs";
+    case "clubs": return "spades";
+  }
+};
+
+export const isJoker = (card: Card): boolean => card.rank === "Joker";
+
+export const isRightBower = (card: Card, trump: Suit): boolean =>
+  card.rank === "J" && card.suit === trump;
+
+export const isLeftBower = (card: Card, trump: Suit): boolean =>
+  card.rank === "J" && card.suit === getLeftBowerSuit(trump);
+
+// Helper to determine if a card is effectively trump (including bowers)
+export const isTrumpCard = (card: Card, trump: Suit): boolean => {
+  if (isJoker(card) || card.suit === trump) return true;
+  if (isLeftBower(card, trump)) return true;
+  return false;
+};
+
+// Helper to get effective suit of a card (considering bowers and the joker)
+export const getEffectiveSuit = (card: Card, trump: Suit): Suit => {
+  if (isJoker(card) || isLeftBower(card, trump)) return trump;
+  return card.suit;
+};
+
+// Strength of a card within its effective suit: 0 for a seven, up to 8 for the
+// right bower and 9 for the joker. Off-suit cards top out at 7 (the ace).
+export const getSuitRank = (card: Card, trump: Suit): number => {
+  if (!isTrumpCard(card, trump)) return RANKS.indexOf(card.rank);
+  if (isJoker(card)) return TRUMP_RANKS.length + 2;
+  if (isRightBower(card, trump)) return TRUMP_RANKS.length + 1;
+  if (isLeftBower(card, trump)) return TRUMP_RANKS.length;
+  return TRUMP_RANKS.indexOf(card.rank);
+};
+
+// Trick-taking power of a card once `leadSuit` has been led. Trump beats the led
+// suit, and a card that neither follows nor trumps can never win.
+export const getCardPower = (card: Card, trump: Suit, leadSuit: Suit): number => {
+  if (isTrumpCard(card, trump)) return 20 + getSuitRank(card, trump);
+  if (getEffectiveSuit(card, trump) === leadSuit) return 10 + getSuitRank(card, trump);
+  return -1;
+};
+
+// True if `card` beats `winningCard` in a trick where `leadSuit` was led
+export const isWinningCard = (card: Card, winningCard: Card, trump: Suit, leadSuit: Suit): boolean =>
+  getCardPower(card, trump, leadSuit) > getCardPower(winningCard, trump, leadSuit);
+
+// Highest to lowest, grouping trump above everything else
+export const compareCards = (a: Card, b: Card, trump: Suit): number => {
+  const trumpDiff = Number(isTrumpCard(b, trump)) - Number(isTrumpCard(a, trump));
+  if (trumpDiff !== 0) return trumpDiff;
+  return getSuitRank(b, trump) - getSuitRank(a, trump);
+};
+
+export const sortByRank = (cards: Card[], trump: Suit): Card[] =>
+  [...cards].sort((a, b) => compareCards(a, b, trump));
+
+export const getHighestCard = (cards: Card[], trump: Suit): Card =>
+  cards.reduce((highest, card) => (compareCards(card, highest, trump) < 0 ? card : highest));
+
+export const getLowestCard = (cards: Card[], trump: Suit): Card =>
+  cards.reduce((lowest, card) => (compareCards(card, lowest, trump) > 0 ? card : lowest));
+
+// Every trump card in the game's deck from the top down: the joker if there is one,
+// J, left J, A, K, Q, 10, 9 and any 8 and 7
+export const getTrumpOrder = (trump: Suit, rules: RuleSet): { suit: Suit | null; rank: Rank }[] => {
+  const ranks = getDeckRanks(rules.deckSize);
+  return [
+    ...(rules.joker ? [{ suit: null, rank: "Joker" as Rank }] : []),
+    { suit: trump, rank: "J" },
+    { suit: getLeftBowerSuit(trump), rank: "J" },
+    ...TRUMP_RANKS.filter(rank => ranks.includes(rank)).reverse().map((rank) => ({ suit: trump, rank })),
+  ];
+};
+
+// Cards of an off-suit from the ace down, leaving out the jack when it is the left bower
+export const getFollowSuitOrder = (suit: Suit, trump: Suit, rules: RuleSet): { suit: Suit | null; rank: Rank }[] => {
+  if (suit === trump) return getTrumpOrder(trump, rules);
+  return getDeckRanks(rules.deckSize)
+    .reverse()
+    .filter((rank) => !(rank === "J" && suit === getLeftBowerSuit(trump)))
+    .map((rank) => ({ suit, rank }));
+};
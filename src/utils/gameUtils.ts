@@ -1,12 +1,41 @@
-import { Card, Rank, Suit, Player } from "@/types/game";
+import { Card, Suit, Player, Rank, RuleSet, TableauPile } from "@/types/game";
+import {
+  RANKS,
+  getDeckRanks,
+  isTrumpCard,
+  getEffectiveSuit,
+  getSuitRank,
+  isWinningCard,
+  getHighestCard,
+  getLowestCard,
+  isJoker,
+} from "@/utils/cardRanking";
+import { createRng } from "@/engine/rng";
+import { DEFAULT_RULES, getDealLayout } from "@/engine/rules";
+import { getSeats } from "@/engine/seating";
+import { dealTableaus } from "@/engine/tableau";
 
-const SUITS: Suit[] = ["hearts", "diamonds", "spades", "clubs"];
-const RANKS: Rank[] = ["9", "10", "J", "Q", "K", "A"];
+export const WINNING_SCORE = 10;
 
-export const createDeck = (): Card[] => {
+export const SUITS: Suit[] = ["hearts", "diamonds", "spades", "clubs"];
+
+export const SUIT_SYMBOLS: Record<Suit, string> = {
+  hearts: "♥",
+  diamonds: "♦",
+  spades: "♠",
+  clubs: "♣",
+};
+
+// A card as players write it, e.g. "J♥", or just "Joker"
+export const describeCard = (card: Card): string => (isJoker(card) ? "Joker" : `${card.rank}${SUIT_SYMBOLS[card.suit]}`);
+
+export const JOKER: Card = { suit: null, rank: "Joker", id: "joker" };
+
+// A fresh, unshuffled deck for the rule set's deck size, plus the joker when playing with one
+export const createDeck = (rules: RuleSet = DEFAULT_RULES): Card[] => {
   const deck: Card[] = [];
   SUITS.forEach((suit) => {
-    RANKS.forEach((rank) => {
+    getDeckRanks(rules.deckSize).forEach((rank) => {
       deck.push({
         suit,
         rank,
@@ -14,32 +43,50 @@ export const createDeck = (): Card[] => {
       });
     });
   });
-  return shuffleDeck(deck);
+  return rules.joker ? [...deck, JOKER] : deck;
+};
+
+const SUIT_CODES: Record<string, Suit> = { H: "hearts", D: "diamonds", S: "spades", C: "clubs" };
+
+// Short card codes used by lessons and puzzles: "JH" is the jack of hearts, "10S" the ten of spades
+export const parseCardCode = (code: string): Card | null => {
+  const suit = SUIT_CODES[code.slice(-1).toUpperCase()];
+  const rank = RANKS.find(r => r === code.slice(0, -1).toUpperCase());
+  if (!suit || !rank) return null;
+  return { suit, rank, id: `${rank}-${suit}` };
 };
 
-export const shuffleDeck = (deck: Card[]): Card[] => {
+export const toCardCode = (card: Card): string => `${card.rank}${card.suit[0].toUpperCase()}`;
+
+export const shuffleDeck = (deck: Card[], random: () => number): Card[] => {
   const newDeck = [...deck];
   for (let i = newDeck.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
+    const j = Math.floor(random() * (i + 1));
     [newDeck[i], newDeck[j]] = [newDeck[j], newDeck[i]];
   }
   return newDeck;
 };
 
-export const dealCards = (deck: Card[]): { hands: Card[][]; remainingDeck: Card[] } | null => {
+// Deals from the top of an already shuffled deck, leaving at least the turn-up.
+// Seats left out of `seats` get an empty hand.
+export const dealCards = (
+  deck: Card[],
+  handSize: number,
+  seats: number[] = [0, 1, 2, 3]
+): { hands: Card[][]; remainingDeck: Card[] } | null => {
   try {
-    if (!deck || deck.length < 24) {
+    if (!deck || deck.length <= handSize * seats.length) {
       console.error("Invalid deck provided for dealing");
       return null;
     }
 
     const hands: Card[][] = [[], [], [], []];
-    const shuffledDeck = shuffleDeck([...deck]);
+    const remainingDeck = [...deck];
     
-    // Deal exactly 5 cards to each player
-    for (let playerIndex = 0; playerIndex < 4; playerIndex++) {
-      for (let cardIndex = 0; cardIndex < 5; cardIndex++) {
-        const card = shuffledDeck.pop();
+    // Deal exactly handSize cards to each seated player
+    for (const playerIndex of seats) {
+      for (let cardIndex = 0; cardIndex < handSize; cardIndex++) {
+        const card = remainingDeck.pop();
         if (!card) {
           console.error("Not enough cards in deck");
           return null;
@@ -50,7 +97,7 @@ export const dealCards = (deck: Card[]): { hands: Card[][]; remainingDeck: Card[
 
     return {
       hands,
-      remainingDeck: shuffledDeck
+      remainingDeck
     };
   } catch (error) {
     console.error("Error in dealCards:", error);
@@ -58,27 +105,15 @@ export const dealCards = (deck: Card[]): { hands: Card[][]; remainingDeck: Card[
   }
 };
 
-// Helper to get the corresponding left bower suit
-const getLeftBowerSuit = (trump: Suit): Suit => {
-  switch (trump) {
-    case "hearts": return "diamonds";
-    case "diamonds": return "hearts";
-    case "spades": return "clubs";
-    case "clubs": return "spades";
-  }
-};
-
-// Helper to determine if a card is effectively trump (including bowers)
-const isTrumpCard = (card: Card, trump: Suit): boolean => {
-  if (card.suit === trump) return true;
-  if (card.rank === "J" && card.suit === getLeftBowerSuit(trump)) return true;
-  return false;
-};
-
-// Helper to get effective suit of a card (considering bowers)
-const getEffectiveSuit = (card: Card, trump: Suit): Suit => {
-  if (card.rank === "J" && card.suit === getLeftBowerSuit(trump)) return trump;
-  return card.suit;
+// The same seed always gives the same hands, tableaus and turn-up
+export const dealFromSeed = (
+  seed: number,
+  rules: RuleSet = DEFAULT_RULES
+): { hands: Card[][]; tableaus: TableauPile[][]; remainingDeck: Card[] } | null => {
+  const { handSize, tableauPiles } = getDealLayout(rules);
+  const seats = getSeats(rules);
+  const deal = dealCards(shuffleDeck(createDeck(rules), createRng(seed).next), handSize, seats);
+  return deal && { hands: deal.hands, ...dealTableaus(deal.remainingDeck, tableauPiles, seats) };
 };
 
 export const isValidPlay = (card: Card, hand: Card[], trick: Card[], trump: Suit): boolean => {
@@ -99,12 +134,17 @@ export const isValidPlay = (card: Card, hand: Card[], trick: Card[], trump: Suit
   return true;
 };
 
+// The cards in `hand` that may be played to `trick`
+export const getLegalPlays = (hand: Card[], trick: Card[], trump: Suit): Card[] =>
+  hand.filter(c => isValidPlay(c, hand, trick, trump));
+
 export const determineWinner = (trick: Card[], trump: Suit): number => {
+  const leadSuit = getEffectiveSuit(trick[0], trump);
   let winningCard = trick[0];
   let winningIndex = 0;
 
   for (let i = 1; i < trick.length; i++) {
-    if (isWinningCard(trick[i], winningCard, trump)) {
+    if (isWinningCard(trick[i], winningCard, trump, leadSuit)) {
       winningCard = trick[i];
       winningIndex = i;
     }
@@ -113,99 +153,107 @@ export const determineWinner = (trick: Card[], trump: Suit): number => {
   return winningIndex;
 };
 
-const isWinningCard = (card1: Card, card2: Card, trump: Suit): boolean => {
-  if (card1.suit === trump && card2.suit !== trump) return true;
-  if (card1.suit !== trump && card2.suit === trump) return false;
-  if (card1.suit !== card2.suit) return false;
-  return RANKS.indexOf(card1.rank) > RANKS.indexOf(card2.rank);
-};
-
-const canBeatCard = (cardToPlay: Card, cardToBeat: Card, trump: Suit): boolean => {
-  return isWinningCard(cardToPlay, cardToBeat, trump);
-};
-
-const findHighestPlayedCard = (trick: Card[], trump: Suit): Card => {
-  return trick.reduce((highest, current) => 
-    isWinningCard(current, highest, trump) ? current : highest
-  , trick[0]);
-};
-
-export const getTip = (
-  hand: Card[],
-  trick: Card[],
-  trump: Suit,
-  phase: "playing" | "bidding"
-): string => {
-  if (phase === "bidding") {
-    const trumpCards = hand.filter((c) => c.suit === trump);
-    if (trumpCards.length >= 3) {
-      const highTrumpCount = trumpCards.filter((c) => ["A", "K", "Q", "J"].includes(c.rank)).length;
-      if (highTrumpCount >= 2) return "Strong trump hand - consider ordering it up!";
-      return "Moderate trump hand - your call on ordering up.";
-    }
-    return "Weak trump hand - you might want to pass.";
-  }
+export type HandPoints = { teams: number[]; points: number; euchred: boolean };
 
-  if (trick.length === 0) {
-    const highCards = hand.filter((c) => ["A", "K"].includes(c.rank));
-    if (highCards.length > 0) return "Leading with a high card can help control the trick.";
-    return "When leading without high cards, try to draw out stronger cards from opponents.";
+// Points for a finished hand: which teams score and how many. Every team but the
+// makers' defends, so a cutthroat euchre pays both defenders.
+export const getHandPoints = (
+  tricksWon: number[],
+  makerTeam: number,
+  goingAlone: boolean,
+  defendingAlone = false,
+  rules: RuleSet = DEFAULT_RULES
+): HandPoints => {
+  // Makers need a majority of the hand's tricks (seven of a two-handed twelve); taking every one is a march
+  const tricks = tricksWon.reduce((total, t) => total + t, 0);
+  const makerTricks = tricksWon[makerTeam];
+  if (makerTricks * 2 <= tricks) {
+    const defenders = tricksWon.map((_, team) => team).filter(team => team !== makerTeam);
+    // A lone defender who euchres the makers scores like a lone march
+    return { teams: defenders, points: defendingAlone ? 4 : 2, euchred: true };
   }
-
-  const leadSuit = trick[0].suit;
-  const followingSuit = hand.filter((c) => c.suit === leadSuit);
-  const highestPlayed = findHighestPlayedCard(trick, trump);
-  
-  if (followingSuit.length > 0) {
-    // Must follow suit
-    const canWinTrick = followingSuit.some(card => canBeatCard(card, highestPlayed, trump));
-    if (canWinTrick) {
-      const lowestWinningCard = followingSuit
-        .filter(card => canBeatCard(card, highestPlayed, trump))
-        .reduce((lowest, card) => 
-          RANKS.indexOf(card.rank) < RANKS.indexOf(lowest.rank) ? card : lowest
-        );
-      return `You can win this trick - play your ${lowestWinningCard.rank} of ${lowestWinningCard.suit} to win efficiently.`;
-    } else {
-      return "You can't win this trick - play your lowest card in the led suit to save stronger cards for later.";
-    }
+  if (makerTricks === tricks) {
+    // A cutthroat maker always plays alone against two, so a march there is worth 3
+    const march = goingAlone ? 4 : rules.mode === "cutthroat" ? 3 : 2;
+    return { teams: [makerTeam], points: march, euchred: false };
   }
+  return { teams: [makerTeam], points: 1, euchred: false };
+};
 
-  const trumpCards = hand.filter((c) => c.suit === trump);
-  if (trumpCards.length > 0) {
-    // Can't follow suit but have trump
-    const highestTrumpPlayed = trick.find(c => c.suit === trump);
-    if (!highestTrumpPlayed) {
-      // No trump played yet
-      const remainingPlayers = 3 - trick.length;
-      if (remainingPlayers > 1) {
-        return "Consider saving your trump - other players might trump in after you.";
-      }
-      return "Consider trumping to win the trick - you're the last player who could trump!";
-    } else if (trumpCards.some(card => canBeatCard(card, highestTrumpPlayed, trump))) {
-      return "You can over-trump to win the trick - but consider if it's worth using your high trump now.";
-    } else {
-      return "Save your trump cards - you can't win this trick.";
-    }
-  }
+const RANK_NAMES: Record<Rank, string> = {
+  "7": "7",
+  "8": "8",
+  "9": "9",
+  "10": "10",
+  J: "Jack",
+  Q: "Queen",
+  K: "King",
+  A: "Ace",
+  Joker: "Joker",
+};
 
-  // Can't follow suit and no trump
-  const lowestCard = hand.reduce((lowest, card) => 
-    RANKS.indexOf(card.rank) < RANKS.indexOf(lowest.rank) ? card : lowest
-  );
-  return `Discard your ${lowestCard.rank} of ${lowestCard.suit} since you can't win this trick.`;
+const describeRanks = (rules: RuleSet): string => {
+  const names = getDeckRanks(rules.deckSize).map(rank => RANK_NAMES[rank]);
+  return `${names.slice(0, -1).join(", ")}, and ${names[names.length - 1]}`;
 };
 
-export const getGameRules = (): string => {
+export const getGameRules = (rules: RuleSet): string => {
+  const houseRules = [
+    rules.farmersHand && "- Farmer's hand: a player dealt no face cards may swap three cards for the kitty before bidding",
+    rules.canadianLoner && "- Canadian loner: only the dealer may go alone on the turned-up card",
+    rules.defendAlone && "- Defend alone: a defender may play alone against a lone maker; a lone euchre scores 4 points",
+    rules.joker && "- Joker: a joker is added to the deck as the highest trump, above the right bower. If it is turned up, the dealer names trump and picks it up",
+  ].filter(Boolean);
+  const { handSize, tableauPiles, kittySize, tricks } = getDealLayout(rules);
+  const twoHanded = rules.mode === "two-handed";
+  const opening = rules.mode === "cutthroat"
+    ? "This game is played cutthroat: 3 players, each playing for themselves."
+    : twoHanded
+      ? "This game is played two-handed: you against a single opponent."
+      : "Euchre is a card game played with 4 players in 2 teams of 2 players each.";
+  const scoring = rules.mode === "cutthroat" ? `
+Cutthroat Scoring:
+- The seat across from you stays empty
+- Whoever makes trump plays alone against the other two, who team up for the hand
+- Each hand has 5 tricks total
+- A maker who takes 3 or 4 tricks scores 1 point, and all 5 scores 3 points
+- A euchred maker gives each of the other two players 2 points
+- First player to reach ${rules.pointsToWin} points wins; players tied at the top play another hand
+` : twoHanded ? `
+Two-handed Scoring:
+- Each hand has ${tricks} tricks total
+- The maker needs 7: 7 to 11 tricks score 1 point, all 12 score 2
+- A maker who takes 6 or fewer is euchred and the other player scores 2 points
+- First player to reach ${rules.pointsToWin} points wins
+` : `
+Scoring:
+- Each hand has 5 tricks total
+- If the team that chose trump (the "makers") wins 3 or 4 tricks, they score 1 point
+- If the makers win all 5 tricks (called a "march"), they score 2 points
+- A player who goes alone and wins all 5 tricks scores 4 points
+- If the makers take fewer than 3 tricks they are "euchred" and the other team scores 2 points
+- First team to reach ${rules.pointsToWin} points wins the game
+`;
+  const firstRound = twoHanded ? `- Nothing is turned up: starting with the non-dealer, each player may name any suit as trump or pass${kittySize > 0 ? `
+- The ${kittySize} cards left over after the deal are not used` : ""}` : `- After the deal, the top card of the ${kittySize} left over (the "kitty") is turned face up
+- First round: starting left of the dealer, each player may pass or "order it up"
+- If the card is ordered up, its suit becomes trump and the dealer picks it up, then discards a card
+- Second round: if everyone passes, the card is turned down and players may name any other suit`;
+
   return `
-Euchre is a card game played with 4 players in 2 teams of 2 players each.
+${opening}
 
 Basic Concepts:
-- The game uses a special 24-card deck (only 9, 10, Jack, Queen, King, and Ace of each suit)
-- Players sit across from their teammate
-- Each hand consists of dealing 5 cards to each player
+- The game uses a special ${rules.deckSize}-card deck (only ${describeRanks(rules)} of each suit)${rules.joker ? ", plus a joker" : ""}
+${rules.mode === "partners" ? "- Players sit across from their teammate\n" : ""}${twoHanded
+    ? `- Each hand deals ${handSize} cards in hand to each player, plus a tableau of ${tableauPiles} face-down cards, each covered by a face-up card`
+    : `- Each hand consists of dealing ${handSize} cards to each player`}
 - One suit is chosen as "trump" for each hand, making it more powerful than other suits
-
+${twoHanded ? `
+Tableau:
+- Face-up tableau cards are played just like cards in hand
+- Once one is played, the face-down card under it is turned up after the trick
+` : ""}
 What is Trump?
 - Trump is the most powerful suit in each hand
 - Cards of the trump suit beat any card of other suits
@@ -218,52 +266,37 @@ What is a Trick?
 - If you can't follow suit, you can play any card
 - The highest card of the led suit wins, unless a trump card is played
 - Trump cards beat all other suits
-
-Scoring:
-- Each hand has 5 tricks total
-- The team that wins 3 or more tricks scores 1 point
-- If a team wins all 5 tricks (called a "march"), they score 2 points
-- First team to reach 10 points wins the game
-
+${scoring}
+Bidding:
+${firstRound}
+${rules.stickTheDealer
+    ? `- If it comes back to the dealer${twoHanded ? "" : " in the second round"}, the dealer must name trump`
+    : `- If everyone passes${twoHanded ? "" : " in the second round too"}, the hand is thrown in and the next player deals`}
+${houseRules.length > 0 ? `\nHouse Rules:\n${houseRules.join("\n")}\n` : ""}
 Playing Order:
-1. Cards are dealt (5 to each player)
+1. Cards are dealt (${twoHanded ? `${handSize} in hand and ${tricks - handSize} in the tableau` : handSize} to each player)${twoHanded ? "" : " and one card is turned up"}
 2. Players bid to choose the trump suit
 3. Players take turns playing cards clockwise
 4. Highest card wins each trick
-5. After 5 tricks, points are awarded
+5. After ${tricks} tricks, points are awarded
   `;
 };
 
-export const getBestPlay = (hand: Card[], trick: Card[], trump: Suit): Card => {
-  if (trick.length === 0) {
-    // Leading - play highest non-trump if possible
-    const nonTrump = hand.filter(c => c.suit !== trump);
-    if (nonTrump.length > 0) {
-      return nonTrump.reduce((highest, card) => 
-        RANKS.indexOf(card.rank) > RANKS.indexOf(highest.rank) ? card : highest
-      );
-    }
-    return hand[0]; // Play any card if only trump remains
-  }
-
-  const leadSuit = trick[0].suit;
-  const followingSuit = hand.filter(c => c.suit === leadSuit);
-  
-  if (followingSuit.length > 0) {
-    // Must follow suit - play highest if we can win, lowest if we can't
-    return followingSuit.reduce((best, card) => 
-      RANKS.indexOf(card.rank) > RANKS.indexOf(best.rank) ? card : best
-    );
-  }
-
-  const trumpCards = hand.filter(c => c.suit === trump);
-  if (trumpCards.length > 0) {
-    // Can't follow suit but have trump - play lowest trump that can win
-    return trumpCards[0];
+export const getBestDiscard = (hand: Card[], trump: Suit): Card => {
+  const nonTrump = hand.filter(c => !isTrumpCard(c, trump));
+  if (nonTrump.length === 0) {
+    // All trump - give up the lowest one
+    return getLowestCard(hand, trump);
   }
 
-  // Can't follow suit or trump - play lowest card
-  return hand.reduce((lowest, card) => 
-    RANKS.indexOf(card.rank) < RANKS.indexOf(lowest.rank) ? card : lowest
-  );
+  // Never throw an ace if something else will do, and prefer short suits to create a void
+  const suitCount = (suit: Suit) => nonTrump.filter(c => c.suit === suit).length;
+  return nonTrump.reduce((worst, card) => {
+    if (worst.rank === "A" && card.rank !== "A") return card;
+    if (card.rank === "A" && worst.rank !== "A") return worst;
+    if (suitCount(card.suit) !== suitCount(worst.suit)) {
+      return suitCount(card.suit) < suitCount(worst.suit) ? card : worst;
+    }
+    return getSuitRank(card, trump) < getSuitRank(worst, trump) ? card : worst;
+  });
 };
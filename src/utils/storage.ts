@@ -1,8 +1,16 @@
 
-import { GameState } from "@/types/game";
+import { GameState, HandRecord } from "@/types/game";
 import { initialState } from "@/reducers/gameReducer";
+import { GameReport, MAX_SAVED_REPORTS } from "@/engine/report";
+import { Puzzle } from "@/engine/puzzles";
+import { createDrillStats, DrillStats, SEAT_POSITIONS } from "@/engine/biddingDrill";
 
 export const STORAGE_KEY = "euchre_game_state";
+export const REPORTS_KEY = "euchre_game_reports";
+export const TUTORIAL_KEY = "euchre_tutorial_progress";
+export const PUZZLE_PROGRESS_KEY = "euchre_puzzle_progress";
+export const IMPORTED_PUZZLES_KEY = "euchre_imported_puzzles";
+export const DRILL_STATS_KEY = "euchre_bidding_drill_stats";
 
 export const loadGameState = (): GameState => {
   try {
@@ -11,13 +19,25 @@ export const loadGameState = (): GameState => {
 
     const parsedState = JSON.parse(savedState);
     
-    if (!parsedState || !Array.isArray(parsedState.players)) {
+    // Tricks saved before plays were tagged with their seat can't be resumed
+    const hasUntaggedTrick = Array.isArray(parsedState?.trickCards) &&
+      parsedState.trickCards.some((play: { card?: unknown }) => !play?.card);
+
+    if (!parsedState || !Array.isArray(parsedState.players) || hasUntaggedTrick) {
       console.error("Invalid saved state, using initial state");
       localStorage.removeItem(STORAGE_KEY);
       return initialState;
     }
 
-    return parsedState;
+    // Hands saved before cutthroat recorded the one team that scored
+    const handHistory = Array.isArray(parsedState.handHistory)
+      ? parsedState.handHistory.map((record: HandRecord & { result: { team?: number } }) =>
+        record.result.teams ? record : { ...record, result: { ...record.result, teams: [record.result.team] } })
+      : initialState.handHistory;
+
+    // Fill in any fields added since the game was saved, house rules included
+    // Events were already announced before the game was saved
+    return { ...initialState, ...parsedState, handHistory, rules: { ...initialState.rules, ...parsedState.rules }, events: [] };
   } catch (error) {
     console.error("Error loading game state:", error);
     localStorage.removeItem(STORAGE_KEY);
@@ -32,3 +52,108 @@ export const saveGameState = (state: GameState): void => {
     console.error("Error saving game state:", error);
   }
 };
+
+// Learning reports from finished games, oldest first
+export const loadGameReports = (): GameReport[] => {
+  try {
+    const saved = localStorage.getItem(REPORTS_KEY);
+    const reports = saved ? JSON.parse(saved) : [];
+    return Array.isArray(reports) ? reports : [];
+  } catch (error) {
+    console.error("Error loading game reports:", error);
+    return [];
+  }
+};
+
+export const saveGameReport = (report: GameReport): void => {
+  try {
+    const reports = loadGameReports().filter(r => r.id !== report.id);
+    localStorage.setItem(REPORTS_KEY, JSON.stringify([...reports, report].slice(-MAX_SAVED_REPORTS)));
+  } catch (error) {
+    console.error("Error saving game report:", error);
+  }
+};
+
+// Ids of the tutorial lessons already finished
+export const loadTutorialProgress = (): string[] => {
+  try {
+    const saved = localStorage.getItem(TUTORIAL_KEY);
+    const completed = saved ? JSON.parse(saved) : [];
+    return Array.isArray(completed) ? completed : [];
+  } catch (error) {
+    console.error("Error loading tutorial progress:", error);
+    return [];
+  }
+};
+
+export const saveTutorialProgress = (completed: string[]): void => {
+  try {
+    localStorage.setItem(TUTORIAL_KEY, JSON.stringify(completed));
+  } catch (error) {
+    console.error("Error saving tutorial progress:", error);
+  }
+};
+
+export type PuzzleProgress = {
+  solved: string[];
+  streak: number;
+  bestStreak: number;
+};
+
+export const loadPuzzleProgress = (): PuzzleProgress => {
+  const empty: PuzzleProgress = { solved: [], streak: 0, bestStreak: 0 };
+  try {
+    const saved = localStorage.getItem(PUZZLE_PROGRESS_KEY);
+    return saved ? { ...empty, ...JSON.parse(saved) } : empty;
+  } catch (error) {
+    console.error("Error loading puzzle progress:", error);
+    return empty;
+  }
+};
+
+export const savePuzzleProgress = (progress: PuzzleProgress): void => {
+  try {
+    localStorage.setItem(PUZZLE_PROGRESS_KEY, JSON.stringify(progress));
+  } catch (error) {
+    console.error("Error saving puzzle progress:", error);
+  }
+};
+
+// Puzzles the player imported from their own files (already validated)
+export const loadImportedPuzzles = (): Puzzle[] => {
+  try {
+    const saved = localStorage.getItem(IMPORTED_PUZZLES_KEY);
+    const puzzles = saved ? JSON.parse(saved) : [];
+    return Array.isArray(puzzles) ? puzzles : [];
+  } catch (error) {
+    console.error("Error loading imported puzzles:", error);
+    return [];
+  }
+};
+
+export const saveImportedPuzzles = (puzzles: Puzzle[]): void => {
+  try {
+    localStorage.setItem(IMPORTED_PUZZLES_KEY, JSON.stringify(puzzles));
+  } catch (error) {
+    console.error("Error saving imported puzzles:", error);
+  }
+};
+
+export const loadDrillStats = (): DrillStats => {
+  try {
+    const saved = localStorage.getItem(DRILL_STATS_KEY);
+    const stats = saved ? JSON.parse(saved) : null;
+    return Array.isArray(stats) && stats.length === SEAT_POSITIONS.length ? stats : createDrillStats();
+  } catch (error) {
+    console.error("Error loading bidding drill stats:", error);
+    return createDrillStats();
+  }
+};
+
+export const saveDrillStats = (stats: DrillStats): void => {
+  try {
+    localStorage.setItem(DRILL_STATS_KEY, JSON.stringify(stats));
+  } catch (error) {
+    console.error("Error saving bidding drill stats:", error);
+  }
+};